@@ -0,0 +1,62 @@
+//app/api/admin/queue/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import globalQueue, { JobStateError } from "lib/queue";
+
+export const dynamic = "force-dynamic";
+
+// GET: Processor state (running / paused / draining) and queue status
+export async function GET() {
+  return NextResponse.json({
+    queueStatus: globalQueue.getQueueStatus(),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// POST: { action: "pause" | "resume" | "shutdown", reason? }
+// shutdown stops taking jobs, waits for in-flight ones and exits the process
+export async function POST(request: NextRequest) {
+  try {
+    const { action, reason } = await request.json();
+
+    if (action === "pause") {
+      globalQueue.pause(reason);
+    } else if (action === "resume") {
+      globalQueue.resume();
+    } else if (action === "shutdown") {
+      // Respond before the process goes away
+      setTimeout(() => {
+        globalQueue.shutdown(reason || "Shutdown requested via admin API");
+      }, 100);
+      return NextResponse.json(
+        {
+          message: "Draining job queue, the server will exit when idle",
+          queueStatus: globalQueue.getQueueStatus(),
+        },
+        { status: 202 }
+      );
+    } else {
+      return NextResponse.json(
+        {
+          error: `Unknown action: ${action}. Use "pause", "resume" or "shutdown"`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      message: `Job queue ${action === "pause" ? "paused" : "resumed"}`,
+      queueStatus: globalQueue.getQueueStatus(),
+    });
+  } catch (error: unknown) {
+    if (error instanceof JobStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Admin queue API error:", errorMessage);
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
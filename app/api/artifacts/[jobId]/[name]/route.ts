@@ -0,0 +1,41 @@
+//app/api/artifacts/[jobId]/[name]/route.ts
+
+import fs from "fs";
+import { NextRequest, NextResponse } from "next/server";
+import globalQueue from "lib/queue";
+
+export const dynamic = "force-dynamic";
+
+// GET: A screenshot, GLB or PDF report that a dry-run job kept locally
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string; name: string }> }
+) {
+  try {
+    const { jobId, name } = await params;
+    const artifact = globalQueue
+      .getJob(jobId)
+      ?.artifacts?.find((other) => other.name === name);
+
+    if (!artifact || !fs.existsSync(artifact.path)) {
+      return NextResponse.json(
+        { error: `Artifact not found: ${jobId}/${name}` },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(fs.readFileSync(artifact.path), {
+      headers: {
+        "Content-Type": artifact.contentType,
+        "Content-Length": String(artifact.bytes),
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Artifact API error:", errorMessage);
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { google } from "googleapis";
 import { put } from "@vercel/blob";
+import { projectRegistry } from "lib/projects";
 
 export const dynamic = "force-dynamic";
 export const maxDuration = 60;
@@ -24,13 +25,14 @@ function initializeDriveAPI() {
 // Search for GLB file by Article ID
 async function findGLBFile(
   drive: any,
-  articleId: string
+  articleId: string,
+  folderId: string
 ): Promise<string | null> {
   try {
     console.log(`🔍 Searching for GLB file: ${articleId}.glb`);
 
     const response = await drive.files.list({
-      q: `name contains '${articleId}' and '${process.env.GOOGLE_DRIVE_FOLDER_ID}' in parents and trashed=false`,
+      q: `name contains '${articleId}' and '${folderId}' in parents and trashed=false`,
 
       fields: "files(id, name)",
     });
@@ -96,7 +98,9 @@ async function downloadGLBFile(drive: any, fileId: string): Promise<Buffer> {
 // API Route Handler
 export async function POST(request: NextRequest) {
   try {
-    const { articleId } = await request.json();
+    // projectId: the job's project, whose Drive folder is searched if it
+    // has its own. The folder is never taken from the request.
+    const { articleId, projectId } = await request.json();
 
     if (!articleId) {
       return NextResponse.json(
@@ -109,9 +113,20 @@ export async function POST(request: NextRequest) {
       `🚀 Starting GLB download process for Article ID: ${articleId}`
     );
 
+    const project = projectId
+      ? projectRegistry.getProject(projectId)
+      : undefined;
+    if (projectId && !project) {
+      return NextResponse.json(
+        { error: `Project not found: ${projectId}` },
+        { status: 404 }
+      );
+    }
+    const folderId = project?.driveFolderId;
+
     // Validate environment variables
     const requiredEnvVars = [
-      "GOOGLE_DRIVE_FOLDER_ID",
+      ...(folderId ? [] : ["GOOGLE_DRIVE_FOLDER_ID"]),
       "GOOGLE_CLIENT_EMAIL",
       "GOOGLE_PRIVATE_KEY",
       "GOOGLE_PROJECT_ID",
@@ -127,7 +142,11 @@ export async function POST(request: NextRequest) {
     const drive = initializeDriveAPI();
 
     // Search for the GLB file
-    const fileId = await findGLBFile(drive, articleId);
+    const fileId = await findGLBFile(
+      drive,
+      articleId,
+      folderId || (process.env.GOOGLE_DRIVE_FOLDER_ID as string)
+    );
 
     if (!fileId) {
       return NextResponse.json(
@@ -184,7 +203,11 @@ export async function GET(request: NextRequest) {
     console.log(`🔍 Test mode: Checking for GLB file: ${articleId}.glb`);
 
     const drive = initializeDriveAPI();
-    const fileId = await findGLBFile(drive, articleId);
+    const fileId = await findGLBFile(
+      drive,
+      articleId,
+      process.env.GOOGLE_DRIVE_FOLDER_ID as string
+    );
 
     return NextResponse.json({
       message: "GLB file search test",
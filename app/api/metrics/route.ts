@@ -0,0 +1,44 @@
+//app/api/metrics/route.ts
+
+import { NextResponse } from "next/server";
+import globalQueue from "lib/queue";
+import {
+  approvalRatio,
+  busyWorkers,
+  metrics,
+  qaResults,
+  queueJobs,
+} from "lib/metrics";
+
+export const dynamic = "force-dynamic";
+
+// GET: Prometheus scrape endpoint
+export async function GET() {
+  try {
+    const status = globalQueue.getQueueStatus();
+
+    queueJobs.set({ status: "pending" }, status.pending);
+    queueJobs.set({ status: "processing" }, status.processing);
+    queueJobs.set({ status: "completed" }, status.completed);
+    queueJobs.set({ status: "failed" }, status.failed);
+    queueJobs.set({ status: "needs_references" }, status.needsReferences);
+    busyWorkers.set({}, status.workers.filter((worker) => worker.busy).length);
+
+    const approved = qaResults.get({ result: "approved" });
+    const analysed = approved + qaResults.get({ result: "not_approved" });
+    approvalRatio.set({}, analysed > 0 ? approved / analysed : 0);
+
+    return new NextResponse(metrics.render(), {
+      headers: {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Metrics API error:", errorMessage);
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+//app/api/projects/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import globalQueue from "lib/queue";
+import { ProjectValidationError, projectRegistry } from "lib/projects";
+
+export const dynamic = "force-dynamic";
+
+function errorResponse(error: unknown, label: string) {
+  if (error instanceof ProjectValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  console.error(`❌ Projects ${label} error:`, errorMessage);
+
+  return NextResponse.json({ error: errorMessage }, { status: 500 });
+}
+
+// GET: All client projects with per-project job counts
+export async function GET() {
+  try {
+    const jobs = globalQueue.getAllJobs();
+    const projects = projectRegistry.listProjects().map((project) => {
+      const projectJobs = jobs.filter((job) => job.projectId === project.id);
+      return {
+        ...project,
+        jobs: {
+          total: projectJobs.length,
+          pending: projectJobs.filter((job) => job.status === "pending").length,
+          processing: projectJobs.filter((job) => job.status === "processing")
+            .length,
+          completed: projectJobs.filter((job) => job.status === "completed")
+            .length,
+          failed: projectJobs.filter((job) => job.status === "failed").length,
+        },
+      };
+    });
+
+    return NextResponse.json({
+      projects,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, "GET");
+  }
+}
+
+// POST: Create or replace a project
+// { id, name, sheetIds, driveFolderId, appsScriptUrl, specProfile,
+//   branding: { logoUrl, reportTitle }, triggerStatuses }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const existed = !!projectRegistry.getProject(body?.id);
+    const project = projectRegistry.saveProject(body);
+
+    return NextResponse.json(
+      { success: true, project },
+      { status: existed ? 200 : 201 }
+    );
+  } catch (error: unknown) {
+    return errorResponse(error, "POST");
+  }
+}
+
+// DELETE: Remove a project (?id=...). Its jobs keep their projectId.
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = new URL(request.url).searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    if (!projectRegistry.removeProject(id)) {
+      return NextResponse.json(
+        { error: `Project not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id });
+  } catch (error: unknown) {
+    return errorResponse(error, "DELETE");
+  }
+}
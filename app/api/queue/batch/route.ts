@@ -0,0 +1,119 @@
+//app/api/queue/batch/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import globalQueue from "lib/queue";
+import { BatchValidationError, batchManager, parseBatchCSV } from "lib/batches";
+
+export const dynamic = "force-dynamic";
+
+// GET: Progress and aggregated result of one batch (?batchId=...), or a
+// summary of every batch
+export async function GET(request: NextRequest) {
+  try {
+    const batchId = new URL(request.url).searchParams.get("batchId");
+
+    if (batchId) {
+      const progress = batchManager.getProgress(batchId);
+      if (!progress) {
+        return NextResponse.json(
+          { error: `Batch not found: ${batchId}` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ batch: progress });
+    }
+
+    const batches = batchManager.listBatches().map((batch) => {
+      const progress = batchManager.getProgress(batch.id);
+      return {
+        id: batch.id,
+        name: batch.name,
+        createdAt: batch.createdAt,
+        totalRows: progress?.totalRows,
+        accepted: progress?.accepted,
+        percentComplete: progress?.percentComplete,
+        finished: progress?.finished,
+      };
+    });
+
+    return NextResponse.json({
+      batches,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Batch API error:", errorMessage);
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+// POST: Submit a batch. Accepts JSON ({ name, jobs: [...] } or a bare
+// array), a text/csv body (?name=...), or a multipart form with a "file"
+// CSV and optional "name" field.
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get("content-type") || "";
+    let name: string | undefined =
+      new URL(request.url).searchParams.get("name") || undefined;
+    let rows: unknown[];
+
+    if (contentType.includes("multipart/form-data")) {
+      const form = await request.formData();
+      const file = form.get("file");
+      if (!file || typeof file === "string") {
+        return NextResponse.json(
+          { error: "Multipart upload needs a CSV file in the 'file' field" },
+          { status: 400 }
+        );
+      }
+      name = (form.get("name") as string | null) || name || file.name;
+      rows = parseBatchCSV(await file.text());
+    } else if (contentType.includes("text/csv")) {
+      rows = parseBatchCSV(await request.text());
+    } else {
+      const body = await request.json();
+      if (Array.isArray(body)) {
+        rows = body;
+      } else if (Array.isArray(body?.jobs)) {
+        rows = body.jobs;
+        name = body.name || name;
+      } else {
+        return NextResponse.json(
+          { error: "Body must be an array of jobs or { name, jobs: [...] }" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const batch = await batchManager.submit(name, rows);
+    const accepted = batch.rows.filter((row) => row.accepted).length;
+
+    return NextResponse.json(
+      {
+        message: `Batch enqueued: ${accepted} of ${batch.rows.length} rows accepted`,
+        batch: {
+          id: batch.id,
+          name: batch.name,
+          createdAt: batch.createdAt,
+          accepted,
+          rejected: batch.rows.length - accepted,
+        },
+        rows: batch.rows,
+        queueStatus: globalQueue.getQueueStatus(),
+      },
+      { status: accepted > 0 ? 201 : 422 }
+    );
+  } catch (error: unknown) {
+    if (error instanceof BatchValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Batch POST error:", errorMessage);
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -1,7 +1,22 @@
 //app\api\queue\route.ts
 
 import { NextRequest, NextResponse } from "next/server";
-import globalQueue from "lib/queue";
+import globalQueue, {
+  JOB_PRIORITIES,
+  JobPriority,
+  JobStateError,
+  QA_STAGES,
+  QAJob,
+  QAStage,
+  QueueFullError,
+} from "lib/queue";
+import { LOG_LEVELS, LogLevel, filterLogs } from "lib/logger";
+import { JobOptionsValidationError, validateJobOptions } from "lib/jobOptions";
+import { projectRegistry } from "lib/projects";
+import {
+  ReferenceValidationError,
+  preflightReferences,
+} from "lib/referenceValidator";
 
 export const dynamic = "force-dynamic";
 
@@ -12,7 +27,45 @@ export async function GET(request: NextRequest) {
     const jobId = url.searchParams.get("jobId");
     const articleId = url.searchParams.get("articleId");
     const status = url.searchParams.get("status");
+    const batchId = url.searchParams.get("batchId");
+    const priority = url.searchParams.get("priority");
+    const projectId = url.searchParams.get("projectId");
     const limit = parseInt(url.searchParams.get("limit") || "50");
+    const logLevel = url.searchParams.get("logLevel");
+    const logStage = url.searchParams.get("logStage");
+
+    if (logLevel && !LOG_LEVELS.includes(logLevel as LogLevel)) {
+      return NextResponse.json(
+        {
+          error: `Unknown log level: ${logLevel}. Use one of: ${LOG_LEVELS.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+    if (logStage && !QA_STAGES.includes(logStage as QAStage)) {
+      return NextResponse.json(
+        {
+          error: `Unknown stage: ${logStage}. Use one of: ${QA_STAGES.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Narrow processing logs to entries at/above logLevel and from logStage
+    const withLogs = (job: QAJob): QAJob =>
+      logLevel || logStage
+        ? {
+            ...job,
+            processingLogs: filterLogs(job.processingLogs, {
+              minLevel: (logLevel as LogLevel) || undefined,
+              stage: (logStage as QAStage) || undefined,
+            }),
+          }
+        : job;
 
     // Get specific job by ID
     if (jobId) {
@@ -23,10 +76,26 @@ export async function GET(request: NextRequest) {
           { status: 404 }
         );
       }
-      return NextResponse.json({ job });
+      return NextResponse.json({ job: withLogs(job) });
+    }
+
+    // Get every revision for an Article ID
+    if (articleId && url.searchParams.get("revisions") === "true") {
+      const revisions = globalQueue.getArticleRevisions(articleId);
+      if (revisions.length === 0) {
+        return NextResponse.json(
+          { error: `No job found for Article ID: ${articleId}` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({
+        articleId,
+        revisions: revisions.map(withLogs),
+        totalRevisions: revisions.length,
+      });
     }
 
-    // Get job by Article ID
+    // Get latest job by Article ID
     if (articleId) {
       const job = globalQueue.findJobByArticleId(articleId);
       if (!job) {
@@ -35,7 +104,7 @@ export async function GET(request: NextRequest) {
           { status: 404 }
         );
       }
-      return NextResponse.json({ job });
+      return NextResponse.json({ job: withLogs(job) });
     }
 
     // Get all jobs with optional filtering
@@ -46,8 +115,23 @@ export async function GET(request: NextRequest) {
       jobs = jobs.filter((job) => job.status === status);
     }
 
+    // Filter by priority if provided
+    if (priority) {
+      jobs = jobs.filter((job) => (job.priority ?? "normal") === priority);
+    }
+
+    // Filter by batch if provided
+    if (batchId) {
+      jobs = jobs.filter((job) => job.batchId === batchId);
+    }
+
+    // Filter by client project if provided
+    if (projectId) {
+      jobs = jobs.filter((job) => job.projectId === projectId);
+    }
+
     // Limit results
-    jobs = jobs.slice(0, limit);
+    jobs = jobs.slice(0, limit).map(withLogs);
 
     const queueStatus = globalQueue.getQueueStatus();
 
@@ -70,7 +154,16 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { articleId, productName, references } = body;
+    const {
+      articleId,
+      productName,
+      references,
+      force,
+      priority,
+      options,
+      dryRun,
+      projectId,
+    } = body;
 
     if (!articleId || !productName) {
       return NextResponse.json(
@@ -79,11 +172,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const job = globalQueue.addJob({
-      articleId,
-      productName,
-      references: references || [],
-    });
+    if (priority && !JOB_PRIORITIES.includes(priority)) {
+      return NextResponse.json(
+        {
+          error: `Unknown priority: ${priority}. Use one of: ${JOB_PRIORITIES.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (projectId && !projectRegistry.getProject(projectId)) {
+      return NextResponse.json(
+        { error: `Project not found: ${projectId}` },
+        { status: 400 }
+      );
+    }
+
+    const job = globalQueue.addJob(
+      await preflightReferences({
+        articleId,
+        productName,
+        references: references || [],
+        force: force === true,
+        priority: priority as JobPriority | undefined,
+        options: validateJobOptions(options),
+        dryRun: dryRun === true,
+        projectId,
+      })
+    );
 
     return NextResponse.json({
       message: "Job added to queue successfully",
@@ -91,11 +209,35 @@ export async function POST(request: NextRequest) {
         id: job.id,
         articleId: job.articleId,
         status: job.status,
+        priority: job.priority,
+        options: job.options,
+        dryRun: job.dryRun,
+        projectId: job.projectId,
+        referenceCheck: job.referenceCheck,
+        error: job.error,
         createdAt: job.createdAt,
       },
       queueStatus: globalQueue.getQueueStatus(),
     });
   } catch (error: unknown) {
+    if (error instanceof JobOptionsValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof ReferenceValidationError) {
+      return NextResponse.json(
+        { error: error.message, referenceCheck: error.check },
+        { status: 422 }
+      );
+    }
+
+    if (error instanceof QueueFullError) {
+      return NextResponse.json(
+        { error: error.message, queueStatus: globalQueue.getQueueStatus() },
+        { status: 429 }
+      );
+    }
+
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     console.error("❌ Queue POST error:", errorMessage);
@@ -103,3 +245,79 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: errorMessage }, { status: 500 });
   }
 }
+
+// PATCH: Cancel, requeue or reprioritize an existing job
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { jobId, action, reason, fromStage, priority } = body;
+
+    if (fromStage && !QA_STAGES.includes(fromStage)) {
+      return NextResponse.json(
+        {
+          error: `Unknown stage: ${fromStage}. Use one of: ${QA_STAGES.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!jobId || !action) {
+      return NextResponse.json(
+        { error: "jobId and action are required" },
+        { status: 400 }
+      );
+    }
+
+    let job;
+    if (action === "cancel") {
+      job = globalQueue.cancelJob(jobId, reason);
+    } else if (action === "requeue") {
+      job = globalQueue.requeueJob(jobId, reason, fromStage as QAStage);
+    } else if (action === "set-priority") {
+      if (!JOB_PRIORITIES.includes(priority)) {
+        return NextResponse.json(
+          {
+            error: `priority must be one of: ${JOB_PRIORITIES.join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+      job = globalQueue.setJobPriority(jobId, priority);
+    } else {
+      return NextResponse.json(
+        {
+          error: `Unknown action: ${action}. Use "cancel", "requeue" or "set-priority"`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!job) {
+      return NextResponse.json(
+        { error: `Job not found: ${jobId}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message:
+        action === "set-priority"
+          ? `Job priority set to ${priority}`
+          : `Job ${action === "cancel" ? "cancelled" : "requeued"}`,
+      job,
+      queueStatus: globalQueue.getQueueStatus(),
+    });
+  } catch (error: unknown) {
+    if (error instanceof JobStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Queue PATCH error:", errorMessage);
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+//app/api/queue/stream/route.ts
+
+import { NextRequest } from "next/server";
+import globalQueue, { QueueEvent } from "lib/queue";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// GET: Server-sent event stream of job lifecycle events. Starts with a
+// "snapshot" event holding the current job list and queue status.
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const limit = parseInt(url.searchParams.get("limit") || "50");
+  const encoder = new TextEncoder();
+
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(
+            encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+          );
+        } catch {
+          cleanup(); // Stream already closed
+        }
+      };
+
+      send("snapshot", {
+        jobs: globalQueue.getAllJobs().slice(0, limit),
+        queueStatus: globalQueue.getQueueStatus(),
+        timestamp: new Date().toISOString(),
+      });
+
+      const unsubscribe = globalQueue.subscribe((event: QueueEvent) => {
+        // Log lines are frequent - only attach queue status to state changes
+        send(
+          event.type,
+          event.type === "job.log"
+            ? event
+            : { ...event, queueStatus: globalQueue.getQueueStatus() }
+        );
+      });
+
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(": heartbeat\n\n"));
+        } catch {
+          cleanup();
+        }
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      console.log("📡 Queue event stream opened");
+    },
+    cancel() {
+      cleanup();
+      console.log("📡 Queue event stream closed");
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,63 @@
+//app/api/revisions/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import globalQueue from "lib/queue";
+import { summarizeRevision } from "lib/revisions";
+
+export const dynamic = "force-dynamic";
+
+// GET: Revision list for an article, plus a comparison of two revisions
+// (defaults to the latest revision against the one before it)
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const articleId = url.searchParams.get("articleId");
+    const from = url.searchParams.get("from");
+    const to = url.searchParams.get("to");
+
+    if (!articleId) {
+      return NextResponse.json(
+        { error: "articleId is required" },
+        { status: 400 }
+      );
+    }
+
+    const revisions = globalQueue.getRevisionHistory(articleId);
+    if (revisions.length === 0) {
+      return NextResponse.json(
+        { error: `No revisions found for Article ID: ${articleId}` },
+        { status: 404 }
+      );
+    }
+
+    const comparison = globalQueue.compareArticleRevisions(
+      articleId,
+      from ? parseInt(from) : undefined,
+      to ? parseInt(to) : undefined
+    );
+
+    if ((from || to) && !comparison) {
+      return NextResponse.json(
+        {
+          error: `Cannot compare revisions ${from ?? "previous"} and ${
+            to ?? "latest"
+          } of Article ID: ${articleId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      articleId,
+      revisions: revisions.map(summarizeRevision),
+      comparison: comparison || null,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Revisions API error:", errorMessage);
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+//app/api/schedules/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { ScheduleValidationError, scheduler } from "lib/scheduler";
+
+export const dynamic = "force-dynamic";
+
+function errorResponse(error: unknown, label: string) {
+  if (error instanceof ScheduleValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  console.error(`❌ Schedules ${label} error:`, errorMessage);
+
+  return NextResponse.json({ error: errorMessage }, { status: 500 });
+}
+
+// GET: All re-QA schedules with their last run
+export async function GET() {
+  try {
+    return NextResponse.json({
+      schedules: scheduler.listSchedules(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, "GET");
+  }
+}
+
+// POST: Create a schedule
+// { name, cron: "0 2 * * 0", target: { type: "approvedBefore", before }, updateSheet }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.cron || !body.target) {
+      return NextResponse.json(
+        { error: "cron and target are required" },
+        { status: 400 }
+      );
+    }
+
+    const schedule = scheduler.addSchedule(body);
+    return NextResponse.json({ success: true, schedule }, { status: 201 });
+  } catch (error: unknown) {
+    return errorResponse(error, "POST");
+  }
+}
+
+// PATCH: Update a schedule, or run it right away with { id, action: "run" }
+export async function PATCH(request: NextRequest) {
+  try {
+    const { id, action, ...changes } = await request.json();
+
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    if (!scheduler.getSchedule(id)) {
+      return NextResponse.json(
+        { error: `Schedule not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    if (action === "run") {
+      const run = scheduler.run(id, "manual");
+      return NextResponse.json({ success: true, run });
+    }
+
+    const schedule = scheduler.updateSchedule(id, changes);
+    return NextResponse.json({ success: true, schedule });
+  } catch (error: unknown) {
+    return errorResponse(error, "PATCH");
+  }
+}
+
+// DELETE: Remove a schedule (?id=...)
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = new URL(request.url).searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    if (!scheduler.removeSchedule(id)) {
+      return NextResponse.json(
+        { error: `Schedule not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id });
+  } catch (error: unknown) {
+    return errorResponse(error, "DELETE");
+  }
+}
@@ -1,11 +1,31 @@
 //app\api\status-change\route.ts
 
 import { NextRequest, NextResponse } from "next/server";
-import globalQueue, { QAJobInput } from "lib/queue";
-
-// In-memory storage for recent status changes
-const recentChanges: any[] = [];
-const MAX_STORED_CHANGES = 100;
+import globalQueue, {
+  JOB_PRIORITIES,
+  JobPriority,
+  QAJob,
+  QAJobInput,
+} from "lib/queue";
+import { validateJobOptions } from "lib/jobOptions";
+import { projectRegistry } from "lib/projects";
+import { TriggerDecision, triggerRuleEngine } from "lib/triggerRules";
+import { REFERENCE_POLICY, preflightReferences } from "lib/referenceValidator";
+import { statusChangeVerifier } from "lib/requestAuth";
+import {
+  STATUS_CHANGE_OUTCOMES,
+  StatusChangeOutcome,
+  StatusChangeRecord,
+  statusChangeLog,
+} from "lib/statusChangeLog";
+import {
+  PendingStatusChange,
+  statusChangeDebouncer,
+} from "lib/statusChangeDebouncer";
+
+// How long a repeated Idempotency-Key is recognised (QA_IDEMPOTENCY_TTL_HOURS)
+const IDEMPOTENCY_TTL_MS =
+  (Number(process.env.QA_IDEMPOTENCY_TTL_HOURS) || 24) * 60 * 60 * 1000;
 
 export const dynamic = "force-dynamic";
 
@@ -18,11 +38,195 @@ function addCorsHeaders(response: NextResponse) {
   );
   response.headers.set(
     "Access-Control-Allow-Headers",
-    "Content-Type, Authorization, User-Agent, Accept"
+    "Content-Type, Authorization, User-Agent, Accept, X-QA-Timestamp, X-QA-Signature, Idempotency-Key"
   );
   return response;
 }
 
+// What the sheet's Apps Script sends. Nothing here is trusted; every field
+// may be missing or of the wrong type.
+interface StatusChangeBody {
+  articleId?: string;
+  productName?: string;
+  status?: string;
+  oldStatus?: string;
+  references?: string[];
+  sheetId?: string;
+  sheetName?: string;
+  rowIndex?: number;
+  timestamp?: string;
+  triggerType?: string;
+  force?: boolean;
+  priority?: string;
+  options?: unknown;
+  dryRun?: boolean;
+  idempotencyKey?: string;
+}
+
+// The parsed body, or why it can't be processed
+function parseBody(rawBody: string): StatusChangeBody | string {
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    body = undefined;
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return "Request body must be a JSON object";
+  }
+
+  // Everything else is read defensively, but references are iterated
+  const { references } = body as { references?: unknown };
+  if (
+    references !== undefined &&
+    !(
+      Array.isArray(references) &&
+      references.every((reference) => typeof reference === "string")
+    )
+  ) {
+    return "references must be an array of strings";
+  }
+
+  return body;
+}
+
+// Text fields are stored as strings so the history can be searched, even
+// when the sheet sends e.g. a numeric article ID
+function text(value: unknown, fallback: string): string {
+  return value === undefined || value === null || value === ""
+    ? fallback
+    : String(value);
+}
+
+// The history entry for a payload, before its outcome is known
+function describeChange(
+  body: StatusChangeBody
+): Omit<StatusChangeRecord, "shouldStartQA" | "outcome"> {
+  return {
+    articleId: text(body.articleId, "Unknown"),
+    productName: text(body.productName, "Unknown Product"),
+    status: text(body.status, "Unknown Status"),
+    oldStatus: text(body.oldStatus, "Unknown"),
+    references: Array.isArray(body.references) ? body.references : [],
+    sheetId: text(body.sheetId, "Unknown"),
+    sheetName: text(body.sheetName, "Unknown Sheet"),
+    rowIndex: Number(body.rowIndex) || 0,
+    timestamp: text(body.timestamp, new Date().toISOString()),
+    triggerType: text(body.triggerType, "unknown"),
+    receivedAt: new Date().toISOString(),
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, // Unique ID for frontend
+  };
+}
+
+interface AppliedStatusChange {
+  queueJob: QAJob | null;
+  queueError: string | null;
+  cancelledJob?: QAJob;
+  outcome: StatusChangeOutcome;
+}
+
+// The queue input for a change that enqueues. Throws on invalid options.
+function buildJobInput(
+  body: StatusChangeBody,
+  statusChange: PendingStatusChange,
+  decision: TriggerDecision
+): QAJobInput {
+  const { sheetId, rowIndex, force, priority, options } = body;
+
+  return {
+    articleId: statusChange.articleId,
+    productName: statusChange.productName,
+    references: statusChange.references,
+    sheetId: sheetId,
+    rowIndex: rowIndex,
+    force: force === true,
+    // Unknown values fall back to the rule's priority (or normal)
+    // rather than dropping the trigger
+    priority: JOB_PRIORITIES.includes(priority as JobPriority)
+      ? (priority as JobPriority)
+      : decision.priority,
+    // Invalid options are reported in queueError instead of guessing
+    options: validateJobOptions(options) ?? decision.options,
+    dryRun: body.dryRun === true,
+  };
+}
+
+// Enqueue or cancel as the trigger decision says and record the outcome.
+// Runs right away, or once the debounce window has passed. checkedInput is
+// a job input whose references were already checked.
+async function applyStatusChange(
+  body: StatusChangeBody,
+  statusChange: PendingStatusChange,
+  decision: TriggerDecision,
+  checkedInput?: QAJobInput
+): Promise<AppliedStatusChange> {
+  const { articleId, productName, status, oldStatus } = statusChange;
+  const { references = [], dryRun } = body;
+
+  let queueJob: QAJob | null = null;
+  let queueError: string | null = null;
+  let cancelledJob: QAJob | undefined;
+  let outcome: StatusChangeOutcome = "ignored";
+
+  // Check if this should trigger QA processing
+  if (statusChange.shouldStartQA) {
+    console.log("🚀 QA PROCESSING SHOULD START!");
+    console.log(`   Processing article: ${articleId}`);
+    console.log(`   Product: ${productName}`);
+    console.log(`   With ${references.length} reference images`);
+
+    try {
+      // References that fail the pre-flight check either reject the
+      // trigger or come back as a "needs_references" job
+      const jobInput =
+        checkedInput ??
+        (await preflightReferences(
+          buildJobInput(body, statusChange, decision)
+        ));
+
+      // addJob hands back the article's pending/processing job if it has one
+      const previous = globalQueue.findActiveJob(articleId, dryRun === true);
+      // Add job to the processing queue
+      queueJob = globalQueue.addJob(jobInput);
+      outcome = queueJob.id === previous?.id ? "deduplicated" : "enqueued";
+      if (queueJob.status === "needs_references") {
+        queueError = queueJob.error ?? null;
+      }
+
+      console.log(`✅ Job added to queue: ${queueJob.id}`);
+      console.log(`📊 Queue status:`, globalQueue.getQueueStatus());
+    } catch (error) {
+      console.error("❌ Error adding job to queue:", error);
+      queueError = error instanceof Error ? error.message : "Unknown error";
+      outcome = "rejected";
+      // Don't fail the entire request if queue fails
+    }
+  } else if (decision.action === "cancel") {
+    // e.g. the row was moved back to "In Progress" before QA got to it.
+    // A dry run queued after the real job is not what the sheet means.
+    const existing = globalQueue.findActiveJob(articleId, dryRun === true);
+    if (existing) {
+      cancelledJob = globalQueue.cancelJob(
+        existing.id,
+        `Status changed from "${oldStatus}" to "${status}"`
+      );
+      outcome = "cancelled";
+    }
+  }
+
+  statusChangeLog.record({
+    ...statusChange,
+    outcome,
+    jobId: queueJob?.id ?? cancelledJob?.id,
+    reason: queueError ?? undefined,
+  });
+  console.log(
+    `📊 Status change ${outcome}, ${statusChangeLog.size} stored changes`
+  );
+
+  return { queueJob, queueError, cancelledJob, outcome };
+}
+
 // Handle preflight OPTIONS requests
 export async function OPTIONS(request: NextRequest) {
   console.log("🔄 OPTIONS request received (CORS preflight)");
@@ -34,7 +238,47 @@ export async function POST(request: NextRequest) {
   console.log("🔄 POST request received at /api/status-change");
 
   try {
-    const body = await request.json();
+    // The signature covers the exact bytes sent, so verify the raw body
+    const rawBody = await request.text();
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0].trim() ?? undefined;
+
+    const body = parseBody(rawBody);
+    if (typeof body === "string") {
+      statusChangeVerifier.reject({ reason: "malformed_body", ip }, body);
+      return addCorsHeaders(
+        NextResponse.json({ status: "error", message: body }, { status: 400 })
+      );
+    }
+
+    // In Apps Script:
+    //   const ts = String(Math.floor(Date.now() / 1000));
+    //   const mac = Utilities.computeHmacSha256Signature(ts + "." + payload, secret);
+    //   headers["X-QA-Signature"] = "sha256=" + mac.map(b => ("0" + (b & 255).toString(16)).slice(-2)).join("");
+    const verification = statusChangeVerifier.verify(
+      rawBody,
+      request.headers,
+      typeof body.sheetId === "string" ? body.sheetId : undefined
+    );
+    if (!verification.ok) {
+      // Kept in the verifier's bounded list, not the history: anyone can
+      // send these, and they must not push real changes out of it
+      statusChangeVerifier.reject(
+        {
+          reason: verification.reason,
+          sheetId: typeof body.sheetId === "string" ? body.sheetId : undefined,
+          ip,
+        },
+        verification.message
+      );
+      return addCorsHeaders(
+        NextResponse.json(
+          { status: "error", message: verification.message },
+          { status: 401 }
+        )
+      );
+    }
+
     console.log("📨 Received body:", JSON.stringify(body, null, 2));
 
     const {
@@ -50,33 +294,25 @@ export async function POST(request: NextRequest) {
       triggerType,
     } = body;
 
+    // Trigger rules for the sheet decide what to do; without a matching
+    // rule the owning client project's trigger statuses apply
+    const project = projectRegistry.findBySheetId(sheetId);
+    const { decision } = triggerRuleEngine.evaluate(body, project);
+
     // Create status change object
     const statusChange = {
-      articleId: articleId || "Unknown",
-      productName: productName || "Unknown Product",
-      status: status || "Unknown Status",
-      oldStatus: oldStatus || "Unknown",
-      references: Array.isArray(references) ? references : [],
-      sheetId: sheetId || "Unknown",
-      sheetName: sheetName || "Unknown Sheet",
-      rowIndex: rowIndex || 0,
-      timestamp: timestamp || new Date().toISOString(),
-      triggerType: triggerType || "unknown",
-      shouldStartQA:
-        status === "Delivered by Artist" ||
-        status === "Deliver" ||
-        status.toLowerCase().includes("deliver"),
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, // Unique ID for frontend
+      ...describeChange(body),
+      projectId: project?.id,
+      shouldStartQA: decision.action === "enqueue",
+      triggerAction: decision.action,
+      matchedRule: decision.matchedRule,
+      idempotencyKey:
+        request.headers.get("Idempotency-Key") ||
+        (typeof body.idempotencyKey === "string"
+          ? body.idempotencyKey
+          : undefined),
     };
 
-    // Add to the beginning of the array (newest first)
-    recentChanges.unshift(statusChange);
-
-    // Keep only the most recent changes
-    if (recentChanges.length > MAX_STORED_CHANGES) {
-      recentChanges.splice(MAX_STORED_CHANGES);
-    }
-
     // Print the status change information to console
     console.log("=".repeat(50));
     console.log("📋 STATUS CHANGE DETECTED");
@@ -85,6 +321,7 @@ export async function POST(request: NextRequest) {
     console.log(`🏷️  Product: ${productName}`);
     console.log(`📊 Old Status: ${oldStatus} → New Status: ${status}`);
     console.log(`📄 Sheet: ${sheetName} (ID: ${sheetId})`);
+    console.log(`🏢 Project: ${project ? project.name : "none (defaults)"}`);
     console.log(`📍 Row: ${rowIndex}`);
     console.log(`⏰ Timestamp: ${timestamp}`);
     console.log(`🖼️  Reference Images (${references.length}):`);
@@ -92,38 +329,115 @@ export async function POST(request: NextRequest) {
       console.log(`   ${i + 1}. ${ref}`);
     });
     console.log(`🔧 Trigger Type: ${triggerType}`);
+    console.log(
+      `🎯 Trigger rule: ${
+        typeof decision.matchedRule === "string"
+          ? decision.matchedRule
+          : decision.matchedRule.name
+      } → ${decision.action}`
+    );
     console.log("=".repeat(50));
 
-    let queueJob = null;
-
-    // Check if this should trigger QA processing
-    if (statusChange.shouldStartQA) {
-      console.log("🚀 QA PROCESSING SHOULD START!");
-      console.log(`   Processing article: ${articleId}`);
-      console.log(`   Product: ${productName}`);
-      console.log(`   With ${references.length} reference images`);
+    // The same edit sent twice (e.g. onEdit plus a manual trigger) carries
+    // the same key; point at the first request instead of acting again
+    if (statusChange.idempotencyKey) {
+      const original =
+        statusChangeDebouncer.findByIdempotencyKey(
+          statusChange.idempotencyKey
+        ) ??
+        statusChangeLog.findByIdempotencyKey(
+          statusChange.idempotencyKey,
+          IDEMPOTENCY_TTL_MS
+        );
+
+      if (original) {
+        const originalChangeId = original.collapsedInto ?? original.id;
+        console.log(
+          `♻️ Repeated idempotency key ${statusChange.idempotencyKey}, same as change ${originalChangeId}`
+        );
+        statusChangeLog.record({
+          ...statusChange,
+          outcome: "collapsed",
+          collapsedInto: originalChangeId,
+          jobId: original.jobId,
+          reason: "Repeated idempotency key",
+        });
+
+        return addCorsHeaders(
+          NextResponse.json({
+            status: "success",
+            message: `Duplicate status change for article ${articleId} ignored`,
+            articleId: articleId,
+            outcome: "collapsed",
+            changeId: statusChange.id,
+            originalChangeId,
+            jobId: original.jobId ?? null,
+            queueStatus: globalQueue.getQueueStatus(),
+          })
+        );
+      }
+    }
 
+    let result: AppliedStatusChange | undefined;
+    let debouncedUntil: string | undefined;
+    let checkedInput: QAJobInput | undefined;
+
+    // Under QA_REFERENCE_POLICY=reject the caller has to hear about bad
+    // references (or options), so check them before the change waits out
+    // the debounce window rather than after
+    if (
+      decision.action === "enqueue" &&
+      statusChangeDebouncer.enabled &&
+      REFERENCE_POLICY === "reject"
+    ) {
       try {
-        // Add job to the processing queue
-        const jobInput: QAJobInput = {
-          articleId: articleId,
-          productName: productName,
-          references: references,
-          sheetId: sheetId,
-          rowIndex: rowIndex,
-        };
-
-        queueJob = globalQueue.addJob(jobInput);
-
-        console.log(`✅ Job added to queue: ${queueJob.id}`);
-        console.log(`📊 Queue status:`, globalQueue.getQueueStatus());
-      } catch (queueError) {
-        console.error("❌ Error adding job to queue:", queueError);
-        // Don't fail the entire request if queue fails
+        checkedInput = await preflightReferences(
+          buildJobInput(body, statusChange, decision)
+        );
+      } catch (error) {
+        const queueError =
+          error instanceof Error ? error.message : "Unknown error";
+        console.error("❌ Status change rejected:", queueError);
+        statusChangeLog.record({
+          ...statusChange,
+          outcome: "rejected",
+          reason: queueError,
+        });
+        result = { queueJob: null, queueError, outcome: "rejected" };
       }
     }
 
-    console.log(`📊 Total stored changes: ${recentChanges.length}`);
+    // Anything that would touch the queue waits out the debounce window, as
+    // does any change arriving while an earlier one for the article waits,
+    // so a burst or a flap ends in one action for the final status
+    if (
+      !result &&
+      statusChangeDebouncer.enabled &&
+      (decision.action !== "ignore" ||
+        statusChangeDebouncer.isPending(statusChange.articleId))
+    ) {
+      const { dueAt, superseded } = statusChangeDebouncer.schedule(
+        statusChange,
+        () => applyStatusChange(body, statusChange, decision, checkedInput)
+      );
+      debouncedUntil = dueAt;
+
+      if (superseded) {
+        statusChangeLog.record({
+          ...superseded,
+          outcome: "collapsed",
+          collapsedInto: statusChange.id,
+          reason: `Superseded by "${statusChange.oldStatus}" → "${statusChange.status}" within the debounce window`,
+        });
+      }
+      console.log(
+        `⏳ Status change ${statusChange.id} debounced until ${dueAt}${
+          superseded ? ` (replaces ${superseded.id})` : ""
+        }`
+      );
+    } else if (!result) {
+      result = await applyStatusChange(body, statusChange, decision);
+    }
 
     const response = NextResponse.json({
       status: "success",
@@ -132,16 +446,27 @@ export async function POST(request: NextRequest) {
       articleId: articleId,
       referenceCount: references.length,
       shouldStartQA: statusChange.shouldStartQA,
+      // "debounced" until the window passes without a newer change
+      outcome: result?.outcome ?? "debounced",
+      debouncedUntil: debouncedUntil ?? null,
+      triggerAction: decision.action,
+      matchedRule: decision.matchedRule,
+      cancelledJobId: result?.cancelledJob?.id ?? null,
       timestamp: statusChange.timestamp,
       changeId: statusChange.id,
       // Include queue job info if created
-      queueJob: queueJob
+      queueJob: result?.queueJob
         ? {
-            id: queueJob.id,
-            status: queueJob.status,
-            createdAt: queueJob.createdAt,
+            id: result.queueJob.id,
+            status: result.queueJob.status,
+            priority: result.queueJob.priority,
+            options: result.queueJob.options,
+            dryRun: result.queueJob.dryRun,
+            projectId: result.queueJob.projectId,
+            createdAt: result.queueJob.createdAt,
           }
         : null,
+      queueError: result?.queueError ?? null,
       queueStatus: globalQueue.getQueueStatus(),
     });
 
@@ -163,30 +488,62 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Handle GET requests - return recent changes for frontend
+// Handle GET requests - search the status change history (newest first)
+// ?articleId=&sheet=&status=&oldStatus=&outcome=&from=&to=&page=&pageSize=
+// "since" (ISO timestamp) is kept for pollers and acts like "from"; "limit"
+// is an alias for pageSize
 export async function GET(request: NextRequest) {
   console.log("🔄 GET request received at /api/status-change");
 
   try {
-    const url = new URL(request.url);
-    const limit = parseInt(url.searchParams.get("limit") || "20");
-    const since = url.searchParams.get("since"); // ISO timestamp for polling
-
-    let filteredChanges = recentChanges;
-
-    // Filter by timestamp if 'since' parameter is provided
-    if (since) {
-      const sinceDate = new Date(since);
-      filteredChanges = recentChanges.filter(
-        (change) => new Date(change.timestamp) > sinceDate
+    const params = new URL(request.url).searchParams;
+    const outcome = params.get("outcome");
+
+    if (
+      outcome &&
+      !STATUS_CHANGE_OUTCOMES.includes(outcome as StatusChangeOutcome)
+    ) {
+      return addCorsHeaders(
+        NextResponse.json(
+          {
+            status: "error",
+            message: `outcome must be one of: ${STATUS_CHANGE_OUTCOMES.join(
+              ", "
+            )}`,
+          },
+          { status: 400 }
+        )
       );
     }
 
-    // Limit the number of results
-    const limitedChanges = filteredChanges.slice(0, limit);
+    for (const name of ["from", "to", "since"]) {
+      const value = params.get(name);
+      if (value && Number.isNaN(new Date(value).getTime())) {
+        return addCorsHeaders(
+          NextResponse.json(
+            { status: "error", message: `${name} must be an ISO date` },
+            { status: 400 }
+          )
+        );
+      }
+    }
+
+    const result = statusChangeLog.search(
+      {
+        articleId: params.get("articleId") || undefined,
+        sheet: params.get("sheet") || undefined,
+        status: params.get("status") || undefined,
+        oldStatus: params.get("oldStatus") || undefined,
+        outcome: (outcome as StatusChangeOutcome) || undefined,
+        from: params.get("from") || params.get("since") || undefined,
+        to: params.get("to") || undefined,
+      },
+      parseInt(params.get("page") || "1"),
+      parseInt(params.get("pageSize") || params.get("limit") || "20")
+    );
 
     console.log(
-      `📊 Returning ${limitedChanges.length} changes (total: ${recentChanges.length})`
+      `📊 Returning ${result.items.length} changes (matching: ${result.total}, stored: ${statusChangeLog.size})`
     );
 
     const response = NextResponse.json({
@@ -194,9 +551,16 @@ export async function GET(request: NextRequest) {
       endpoint: "/api/status-change",
       method: "POST required for status changes",
       timestamp: new Date().toISOString(),
-      recentChangesCount: recentChanges.length,
-      recentChanges: limitedChanges,
-      hasMore: recentChanges.length > limit,
+      recentChangesCount: result.total,
+      recentChanges: result.items,
+      hasMore: result.page < result.totalPages,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+      signatureRequired: statusChangeVerifier.enabled,
+      recentRejections: statusChangeVerifier.getRejections().slice(0, 10),
+      debounceSeconds: statusChangeDebouncer.windowMs / 1000,
+      debouncing: statusChangeDebouncer.list(),
       // Include current queue status
       queueStatus: globalQueue.getQueueStatus(),
     });
@@ -0,0 +1,94 @@
+//app/api/trigger-rules/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  TriggerRuleValidationError,
+  triggerRuleEngine,
+} from "lib/triggerRules";
+
+export const dynamic = "force-dynamic";
+
+function errorResponse(error: unknown, label: string) {
+  if (error instanceof TriggerRuleValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  console.error(`❌ Trigger rules ${label} error:`, errorMessage);
+
+  return NextResponse.json({ error: errorMessage }, { status: 500 });
+}
+
+// GET: All status-change trigger rules, optionally for one sheet (?sheetId=)
+export async function GET(request: NextRequest) {
+  try {
+    const sheetId = new URL(request.url).searchParams.get("sheetId");
+    const rules = triggerRuleEngine
+      .listRules()
+      .filter((rule) => !sheetId || !rule.sheetId || rule.sheetId === sheetId);
+
+    return NextResponse.json({
+      rules,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, "GET");
+  }
+}
+
+// POST: Create a rule
+// { name, sheetId?, match: { status: { regex: "^delivered" }, minReferences: 1 },
+//   action: "enqueue" | "cancel" | "ignore", priority?, options? }
+export async function POST(request: NextRequest) {
+  try {
+    const rule = triggerRuleEngine.addRule(await request.json());
+    return NextResponse.json({ success: true, rule }, { status: 201 });
+  } catch (error: unknown) {
+    return errorResponse(error, "POST");
+  }
+}
+
+// PATCH: Update a rule ({ id, ...changes })
+export async function PATCH(request: NextRequest) {
+  try {
+    const { id, ...changes } = await request.json();
+
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    const rule = triggerRuleEngine.updateRule(id, changes);
+    if (!rule) {
+      return NextResponse.json(
+        { error: `Trigger rule not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error: unknown) {
+    return errorResponse(error, "PATCH");
+  }
+}
+
+// DELETE: Remove a rule (?id=...)
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = new URL(request.url).searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    if (!triggerRuleEngine.removeRule(id)) {
+      return NextResponse.json(
+        { error: `Trigger rule not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id });
+  } catch (error: unknown) {
+    return errorResponse(error, "DELETE");
+  }
+}
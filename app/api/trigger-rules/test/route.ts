@@ -0,0 +1,40 @@
+//app/api/trigger-rules/test/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { projectRegistry } from "lib/projects";
+import { triggerRuleEngine } from "lib/triggerRules";
+
+export const dynamic = "force-dynamic";
+
+// POST: Dry-run the trigger rules against a sample status-change payload
+// ({ status, oldStatus, sheetId, sheetName, references }). Nothing is
+// enqueued or cancelled; the response shows which rule matched and why the
+// rules before it did not.
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await request.json();
+
+    if (!payload || typeof payload !== "object") {
+      return NextResponse.json(
+        { error: "Body must be a status-change payload" },
+        { status: 400 }
+      );
+    }
+
+    const project = projectRegistry.findBySheetId(payload.sheetId);
+    const { decision, trace } = triggerRuleEngine.evaluate(payload, project);
+
+    return NextResponse.json({
+      decision,
+      projectId: project?.id,
+      trace,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Trigger rule test error:", errorMessage);
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 //app/api/update-sheet/route.ts
 
 import { NextRequest, NextResponse } from "next/server";
+import { projectRegistry } from "lib/projects";
 
 export const dynamic = "force-dynamic";
 
@@ -46,7 +47,10 @@ export async function POST(request: NextRequest) {
     // Create the update message for the QA column
     let qaMessage = "";
 
-    if (pdfUrl) {
+    if (status === "Needs References") {
+      // The job was held back before QA, summary says what is wrong
+      qaMessage = `⚠️ NEEDS REFERENCES - ${summary}`;
+    } else if (pdfUrl) {
       // If we have a PDF, create a link with status
       const statusText =
         status === "Approved" ? "✅ APPROVED" : "❌ NEEDS REVIEW";
@@ -61,7 +65,10 @@ export async function POST(request: NextRequest) {
 
     // Prepare the Google Apps Script URL
     // You'll need to deploy this as a web app from your Google Apps Script
-    const GOOGLE_SCRIPT_URL = process.env.GOOGLE_SCRIPT_WEB_APP_URL;
+    // (clients with their own script set it on their project)
+    const GOOGLE_SCRIPT_URL =
+      projectRegistry.findBySheetId(sheetId)?.appsScriptUrl ||
+      process.env.GOOGLE_SCRIPT_WEB_APP_URL;
 
     if (!GOOGLE_SCRIPT_URL) {
       console.error("❌ GOOGLE_SCRIPT_WEB_APP_URL not configured");
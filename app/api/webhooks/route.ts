@@ -0,0 +1,119 @@
+//app/api/webhooks/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  WEBHOOK_EVENTS,
+  WebhookValidationError,
+  webhookManager,
+} from "lib/webhooks";
+import { checkAdminRequest } from "lib/requestAuth";
+
+export const dynamic = "force-dynamic";
+
+// Subscriptions hold their targets and signing secrets, so every method
+// needs the admin token
+function denyUnlessAdmin(request: NextRequest): NextResponse | undefined {
+  const check = checkAdminRequest(request.headers);
+  return check.ok
+    ? undefined
+    : NextResponse.json({ error: check.message }, { status: check.status });
+}
+
+// GET: Subscriptions (secrets masked) and the delivery log
+export async function GET(request: NextRequest) {
+  const denied = denyUnlessAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const url = new URL(request.url);
+
+    const deliveries = webhookManager.getDeliveries({
+      subscriptionId: url.searchParams.get("subscriptionId") || undefined,
+      jobId: url.searchParams.get("jobId") || undefined,
+      status: url.searchParams.get("status") || undefined,
+      limit: parseInt(url.searchParams.get("limit") || "50"),
+    });
+
+    return NextResponse.json({
+      subscriptions: webhookManager.listSubscriptions(),
+      deliveries,
+      events: WEBHOOK_EVENTS,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Webhooks API error:", errorMessage);
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+// POST: Add a subscription. The secret is only returned in this response.
+export async function POST(request: NextRequest) {
+  const denied = denyUnlessAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+
+    if (!body?.url) {
+      return NextResponse.json({ error: "url is required" }, { status: 400 });
+    }
+
+    const subscription = webhookManager.addSubscription({
+      url: body.url,
+      events: body.events,
+      secret: body.secret,
+      description: body.description,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        subscription,
+        message:
+          "Store the secret now - it is used to verify the X-QA-Signature header and will not be shown again",
+      },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Webhooks API error:", errorMessage);
+
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: error instanceof WebhookValidationError ? 400 : 500 }
+    );
+  }
+}
+
+// DELETE: Remove a subscription (?id=...)
+export async function DELETE(request: NextRequest) {
+  const denied = denyUnlessAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const id = new URL(request.url).searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    if (!webhookManager.removeSubscription(id)) {
+      return NextResponse.json(
+        { error: `Webhook subscription not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Webhooks API error:", errorMessage);
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
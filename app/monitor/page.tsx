@@ -11,19 +11,66 @@ interface StatusChange {
   timestamp: string;
   shouldStartQA: boolean;
   references: string[];
+  projectId?: string;
 }
 
+interface Project {
+  id: string;
+  name: string;
+}
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  stage?: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const LOG_LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: "bg-gray-300",
+  info: "bg-blue-400",
+  warn: "bg-yellow-400",
+  error: "bg-red-500",
+};
+
+type JobPriority = "urgent" | "normal" | "background";
+
+const PRIORITY_COLORS: Record<JobPriority, string> = {
+  urgent: "bg-red-100 text-red-800",
+  normal: "bg-gray-100 text-gray-700",
+  background: "bg-slate-100 text-slate-500",
+};
+
 interface QueueJob {
   id: string;
   articleId: string;
+  revision?: number;
+  cacheHit?: { jobId: string; revision?: number; reusedAt: string };
+  priority?: JobPriority;
+  options?: Record<string, unknown>; // Per-job processing options
+  dryRun?: boolean;
+  projectId?: string;
   productName: string;
-  status: "pending" | "processing" | "completed" | "failed";
+  status:
+    | "pending"
+    | "processing"
+    | "completed"
+    | "failed"
+    | "cancelled"
+    | "needs_references";
   createdAt: string;
   startedAt?: string;
   completedAt?: string;
   retries: number;
   maxRetries: number;
   error?: string;
+  errorType?: string;
+  nextAttemptAt?: string;
   screenshots?: string[];
   aiAnalysis?: {
     differences: Array<{
@@ -43,7 +90,34 @@ interface QueueJob {
     };
   };
   pdfUrl?: string;
-  processingLogs: string[];
+  referenceCheck?: {
+    ok: boolean;
+    images: Array<{
+      url: string;
+      ok: boolean;
+      format?: string;
+      width?: number;
+      height?: number;
+      error?: string;
+    }>;
+  };
+  stages?: Record<
+    string,
+    {
+      status: "running" | "completed" | "failed" | "skipped";
+      error?: string;
+    }
+  >;
+  processingLogs: LogEntry[];
+}
+
+interface QueueWorker {
+  id: number;
+  busy: boolean;
+  jobId?: string;
+  articleId?: string;
+  stage?: string;
+  startedAt?: string;
 }
 
 interface QueueStatus {
@@ -51,8 +125,14 @@ interface QueueStatus {
   processing: number;
   completed: number;
   failed: number;
+  needsReferences?: number;
   total: number;
   isProcessing: boolean;
+  state?: "running" | "paused" | "draining";
+  stateReason?: string;
+  maxConcurrentJobs?: number;
+  workers?: QueueWorker[];
+  stages?: Record<string, { active: number; waiting: number; limit: number }>;
 }
 
 const QAMonitorDashboard = () => {
@@ -62,6 +142,10 @@ const QAMonitorDashboard = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [autoRefresh, setAutoRefresh] = useState<boolean>(true);
+  const [streamConnected, setStreamConnected] = useState<boolean>(false);
+  const [logLevel, setLogLevel] = useState<LogLevel>("info");
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectFilter, setProjectFilter] = useState<string>("");
 
   // Fetch status changes from your existing API
   const fetchStatusChanges = async (): Promise<QueueStatus | null> => {
@@ -88,15 +172,30 @@ const QAMonitorDashboard = () => {
     }
   };
 
+  // Client projects for the filter
+  const fetchProjects = async (): Promise<void> => {
+    try {
+      const response = await fetch("/api/projects");
+      const data = await response.json();
+      setProjects(data.projects || []);
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+    }
+  };
+
   // Refresh all data
   const refreshData = async (): Promise<void> => {
     setLoading(true);
-    await Promise.all([fetchStatusChanges(), fetchQueueData()]);
+    await Promise.all([
+      fetchStatusChanges(),
+      fetchQueueData(),
+      fetchProjects(),
+    ]);
     setLastUpdate(new Date());
     setLoading(false);
   };
 
-  // Auto-refresh every 3 seconds
+  // Auto-refresh sheet changes every 3 seconds (queue updates are streamed)
   useEffect(() => {
     // Only run on client side
     if (typeof window === "undefined") return;
@@ -104,11 +203,108 @@ const QAMonitorDashboard = () => {
     refreshData();
 
     if (autoRefresh) {
-      const interval = setInterval(refreshData, 3000);
+      const interval = setInterval(fetchStatusChanges, 3000);
       return () => clearInterval(interval);
     }
   }, [autoRefresh]);
 
+  // Live job updates from the queue event stream
+  useEffect(() => {
+    const source = new EventSource("/api/queue/stream");
+
+    source.onopen = () => setStreamConnected(true);
+    source.onerror = () => setStreamConnected(false); // EventSource reconnects
+
+    source.addEventListener("snapshot", (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setQueueJobs(data.jobs || []);
+      setQueueStatus(data.queueStatus);
+      setLastUpdate(new Date());
+    });
+
+    // Every lifecycle event carries a fresh snapshot of the job
+    const upsertJob = (e: Event) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      if (data.queueStatus) setQueueStatus(data.queueStatus);
+      if (!data.job) return;
+
+      setQueueJobs((jobs) =>
+        [data.job, ...jobs.filter((job) => job.id !== data.job.id)].sort(
+          (a, b) =>
+            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+        )
+      );
+      setLastUpdate(new Date());
+    };
+
+    for (const type of [
+      "job.created",
+      "job.updated",
+      "job.stage_started",
+      "job.stage_finished",
+      "job.completed",
+      "job.failed",
+    ]) {
+      source.addEventListener(type, upsertJob);
+    }
+
+    source.addEventListener("job.log", (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setQueueJobs((jobs) =>
+        jobs.map((job) =>
+          job.id === data.jobId
+            ? { ...job, processingLogs: [...job.processingLogs, data.entry] }
+            : job
+        )
+      );
+    });
+
+    return () => source.close();
+  }, []);
+
+  // Cancel, requeue or reprioritize a job, then refresh the list
+  const updateJob = async (
+    jobId: string,
+    action: "cancel" | "requeue" | "set-priority",
+    priority?: JobPriority
+  ): Promise<void> => {
+    try {
+      const response = await fetch("/api/queue", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jobId, action, priority }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        console.error(`Failed to ${action} job:`, data.error);
+      }
+    } catch (error) {
+      console.error(`Error trying to ${action} job:`, error);
+    }
+    await fetchQueueData();
+  };
+
+  // Pause or resume the job processor
+  const setProcessorState = async (
+    action: "pause" | "resume"
+  ): Promise<void> => {
+    try {
+      const response = await fetch("/api/admin/queue", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        console.error(`Failed to ${action} queue:`, data.error);
+        return;
+      }
+      setQueueStatus(data.queueStatus);
+    } catch (error) {
+      console.error(`Error trying to ${action} queue:`, error);
+    }
+  };
+
   // Get status badge
   const getStatusBadge = (status: QueueJob["status"]) => {
     const configs: Record<QueueJob["status"], { color: string; icon: string }> =
@@ -117,6 +313,11 @@ const QAMonitorDashboard = () => {
         processing: { color: "bg-blue-100 text-blue-800", icon: "🔄" },
         completed: { color: "bg-green-100 text-green-800", icon: "✅" },
         failed: { color: "bg-red-100 text-red-800", icon: "❌" },
+        cancelled: { color: "bg-gray-100 text-gray-800", icon: "🛑" },
+        needs_references: {
+          color: "bg-orange-100 text-orange-800",
+          icon: "🖼️",
+        },
       };
 
     const config = configs[status];
@@ -153,6 +354,14 @@ const QAMonitorDashboard = () => {
     return `${minutes}m ${seconds % 60}s`;
   };
 
+  // Jobs and sheet changes of the selected client project
+  const visibleStatusChanges = projectFilter
+    ? statusChanges.filter((change) => change.projectId === projectFilter)
+    : statusChanges;
+  const visibleJobs = projectFilter
+    ? queueJobs.filter((job) => job.projectId === projectFilter)
+    : queueJobs;
+
   return (
     <div className="min-h-screen bg-gray-50 p-6">
       <div className="max-w-7xl mx-auto">
@@ -169,6 +378,20 @@ const QAMonitorDashboard = () => {
               </p>
             </div>
             <div className="flex items-center space-x-4">
+              {projects.length > 0 && (
+                <select
+                  value={projectFilter}
+                  onChange={(e) => setProjectFilter(e.target.value)}
+                  className="text-sm border rounded px-2 py-1"
+                >
+                  <option value="">All clients</option>
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </select>
+              )}
               <label className="flex items-center space-x-2">
                 <input
                   type="checkbox"
@@ -195,6 +418,13 @@ const QAMonitorDashboard = () => {
             {typeof window !== "undefined"
               ? lastUpdate.toLocaleString()
               : lastUpdate.toISOString()}
+            <span
+              className={`ml-3 ${
+                streamConnected ? "text-green-600" : "text-gray-400"
+              }`}
+            >
+              {streamConnected ? "🟢 Live" : "⚪ Reconnecting..."}
+            </span>
           </div>
         </div>
 
@@ -202,7 +432,7 @@ const QAMonitorDashboard = () => {
         {queueStatus && (
           <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
             <h2 className="text-xl font-semibold mb-4">Queue Status</h2>
-            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
               <div className="text-center">
                 <div className="text-2xl font-bold text-yellow-600">
                   {queueStatus.pending}
@@ -227,6 +457,12 @@ const QAMonitorDashboard = () => {
                 </div>
                 <div className="text-sm text-gray-600">Failed</div>
               </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-orange-600">
+                  {queueStatus.needsReferences ?? 0}
+                </div>
+                <div className="text-sm text-gray-600">Needs References</div>
+              </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-gray-600">
                   {queueStatus.total}
@@ -244,7 +480,65 @@ const QAMonitorDashboard = () => {
               >
                 {queueStatus.isProcessing ? "🔄 Queue Active" : "⏸️ Queue Idle"}
               </span>
+              {queueStatus.state && queueStatus.state !== "running" && (
+                <span
+                  title={queueStatus.stateReason}
+                  className="ml-2 inline-flex items-center px-3 py-1 rounded-full text-sm bg-yellow-100 text-yellow-800"
+                >
+                  {queueStatus.state === "paused"
+                    ? "⏸️ Paused"
+                    : "🛑 Draining for shutdown"}
+                </span>
+              )}
+              {queueStatus.state !== "draining" && (
+                <button
+                  onClick={() =>
+                    setProcessorState(
+                      queueStatus.state === "paused" ? "resume" : "pause"
+                    )
+                  }
+                  className="ml-2 text-sm text-blue-600 hover:underline"
+                >
+                  {queueStatus.state === "paused" ? "Resume" : "Pause"}
+                </button>
+              )}
             </div>
+
+            {queueStatus.workers && queueStatus.workers.length > 0 && (
+              <div className="mt-4 border-t pt-4">
+                <div className="text-sm font-medium text-gray-700 mb-2">
+                  Workers ({queueStatus.workers.filter((w) => w.jobId).length}/
+                  {queueStatus.workers.length} busy)
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {queueStatus.workers.map((worker) => (
+                    <div
+                      key={worker.id}
+                      className="text-xs bg-gray-50 p-2 rounded flex justify-between"
+                    >
+                      <span>Worker {worker.id}</span>
+                      <span className="text-gray-600">
+                        {worker.jobId
+                          ? `Article ${worker.articleId} · ${
+                              worker.stage || "starting"
+                            }`
+                          : "idle"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                {queueStatus.stages && (
+                  <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-500">
+                    {Object.entries(queueStatus.stages).map(([stage, s]) => (
+                      <span key={stage}>
+                        {stage}: {s.active}/{s.limit}
+                        {s.waiting > 0 && ` (${s.waiting} waiting)`}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -260,12 +554,12 @@ const QAMonitorDashboard = () => {
               </p>
             </div>
             <div className="max-h-96 overflow-y-auto">
-              {statusChanges.length === 0 ? (
+              {visibleStatusChanges.length === 0 ? (
                 <div className="p-6 text-center text-gray-500">
                   No status changes detected yet
                 </div>
               ) : (
-                statusChanges.slice(0, 10).map((change) => (
+                visibleStatusChanges.slice(0, 10).map((change) => (
                   <div
                     key={change.id}
                     className="p-4 border-b last:border-b-0 hover:bg-gray-50"
@@ -311,12 +605,12 @@ const QAMonitorDashboard = () => {
               </p>
             </div>
             <div className="max-h-96 overflow-y-auto">
-              {queueJobs.length === 0 ? (
+              {visibleJobs.length === 0 ? (
                 <div className="p-6 text-center text-gray-500">
                   No jobs in queue
                 </div>
               ) : (
-                queueJobs.map((job) => (
+                visibleJobs.map((job) => (
                   <div
                     key={job.id}
                     className="p-4 border-b last:border-b-0 hover:bg-gray-50"
@@ -325,6 +619,41 @@ const QAMonitorDashboard = () => {
                       <div className="flex-1">
                         <div className="font-medium text-gray-900">
                           Article {job.articleId}
+                          {job.revision && (
+                            <a
+                              href={`/revisions?articleId=${encodeURIComponent(
+                                job.articleId
+                              )}`}
+                              className="ml-2 text-xs text-blue-600 hover:underline"
+                            >
+                              Rev {job.revision}
+                            </a>
+                          )}
+                          {job.cacheHit && (
+                            <span
+                              title={`Reused results of ${job.cacheHit.jobId}`}
+                              className="ml-2 text-xs bg-purple-100 text-purple-800 px-2 py-0.5 rounded"
+                            >
+                              ♻️ Cached from Rev {job.cacheHit.revision ?? "?"}
+                            </span>
+                          )}
+                          {job.options &&
+                            Object.keys(job.options).length > 0 && (
+                              <span
+                                title={JSON.stringify(job.options, null, 2)}
+                                className="ml-2 text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded"
+                              >
+                                ⚙️ Custom options
+                              </span>
+                            )}
+                          {job.dryRun && (
+                            <span
+                              title="Artifacts kept locally, no sheet update or notifications"
+                              className="ml-2 text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded"
+                            >
+                              🧪 Dry run
+                            </span>
+                          )}
                         </div>
                         <div className="text-sm text-gray-600">
                           {job.productName}
@@ -340,17 +669,109 @@ const QAMonitorDashboard = () => {
                       </div>
                       <div className="flex flex-col items-end space-y-1">
                         {getStatusBadge(job.status)}
+                        {job.status === "pending" ? (
+                          <select
+                            value={job.priority ?? "normal"}
+                            onChange={(e) =>
+                              updateJob(
+                                job.id,
+                                "set-priority",
+                                e.target.value as JobPriority
+                              )
+                            }
+                            className={`text-xs rounded px-1 py-0.5 ${
+                              PRIORITY_COLORS[job.priority ?? "normal"]
+                            }`}
+                          >
+                            <option value="urgent">urgent</option>
+                            <option value="normal">normal</option>
+                            <option value="background">background</option>
+                          </select>
+                        ) : (
+                          job.priority &&
+                          job.priority !== "normal" && (
+                            <span
+                              className={`text-xs rounded px-2 py-0.5 ${
+                                PRIORITY_COLORS[job.priority]
+                              }`}
+                            >
+                              {job.priority}
+                            </span>
+                          )
+                        )}
                         {job.retries > 0 && (
                           <span className="text-xs text-orange-600">
                             Retry {job.retries}/{job.maxRetries}
                           </span>
                         )}
+                        {job.status === "pending" ||
+                        job.status === "processing" ? (
+                          <button
+                            onClick={() => updateJob(job.id, "cancel")}
+                            className="text-xs text-red-600 hover:underline"
+                          >
+                            Cancel
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => updateJob(job.id, "requeue")}
+                            className="text-xs text-blue-600 hover:underline"
+                          >
+                            Re-run
+                          </button>
+                        )}
                       </div>
                     </div>
 
+                    {job.stages && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {Object.entries(job.stages).map(
+                          ([stage, checkpoint]) => (
+                            <span
+                              key={stage}
+                              title={checkpoint.error}
+                              className={`text-xs px-1.5 py-0.5 rounded ${
+                                checkpoint.status === "completed"
+                                  ? "bg-green-50 text-green-700"
+                                  : checkpoint.status === "running"
+                                  ? "bg-blue-50 text-blue-700"
+                                  : checkpoint.status === "failed"
+                                  ? "bg-red-50 text-red-700"
+                                  : "bg-gray-50 text-gray-500"
+                              }`}
+                            >
+                              {stage}
+                            </span>
+                          )
+                        )}
+                      </div>
+                    )}
+
                     {job.error && (
                       <div className="text-xs text-red-600 bg-red-50 p-2 rounded mt-2">
-                        Error: {job.error}
+                        Error{job.errorType && ` (${job.errorType})`}:{" "}
+                        {job.error}
+                        {job.status === "pending" && job.nextAttemptAt && (
+                          <div className="text-orange-600 mt-1">
+                            Next attempt: {formatTime(job.nextAttemptAt)}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {job.referenceCheck && (
+                      <div className="text-xs text-gray-600 mt-2 space-y-1">
+                        {job.referenceCheck.images.map((image, i) => (
+                          <div
+                            key={i}
+                            className={image.ok ? "" : "text-orange-700"}
+                          >
+                            {image.ok ? "🖼️" : "⚠️"} Reference {i + 1}:{" "}
+                            {image.ok
+                              ? `${image.format} ${image.width}×${image.height}`
+                              : image.error}
+                          </div>
+                        ))}
                       </div>
                     )}
 
@@ -479,12 +900,72 @@ const QAMonitorDashboard = () => {
                         <summary className="text-xs text-gray-600 cursor-pointer hover:text-gray-800">
                           View Processing Logs ({job.processingLogs.length})
                         </summary>
-                        <div className="mt-1 bg-gray-50 p-2 rounded text-xs max-h-32 overflow-y-auto">
-                          {job.processingLogs.map((log, index) => (
-                            <div key={index} className="text-gray-700">
-                              {log}
-                            </div>
-                          ))}
+                        <div className="mt-1 bg-gray-50 p-2 rounded text-xs">
+                          <div className="flex justify-end mb-1">
+                            <select
+                              value={logLevel}
+                              onChange={(e) =>
+                                setLogLevel(e.target.value as LogLevel)
+                              }
+                              className="border rounded px-1 py-0.5 text-xs"
+                            >
+                              {LOG_LEVELS.map((level) => (
+                                <option key={level} value={level}>
+                                  {level} and above
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <ol className="border-l border-gray-300 ml-1 max-h-48 overflow-y-auto">
+                            {job.processingLogs
+                              .filter(
+                                (entry) =>
+                                  LOG_LEVELS.indexOf(entry.level) >=
+                                  LOG_LEVELS.indexOf(logLevel)
+                              )
+                              .map((entry, index) => (
+                                <li key={index} className="relative pl-3 mb-1">
+                                  <span
+                                    className={`absolute -left-1 top-1 w-2 h-2 rounded-full ${
+                                      LOG_LEVEL_COLORS[entry.level]
+                                    }`}
+                                  ></span>
+                                  <span className="text-gray-400 mr-2">
+                                    {typeof window === "undefined"
+                                      ? entry.timestamp
+                                      : new Date(
+                                          entry.timestamp
+                                        ).toLocaleTimeString()}
+                                  </span>
+                                  {entry.stage && (
+                                    <span className="bg-gray-200 text-gray-700 px-1 rounded mr-1">
+                                      {entry.stage}
+                                    </span>
+                                  )}
+                                  <span
+                                    className={
+                                      entry.level === "error"
+                                        ? "text-red-700"
+                                        : entry.level === "warn"
+                                        ? "text-yellow-700"
+                                        : "text-gray-700"
+                                    }
+                                  >
+                                    {entry.message}
+                                  </span>
+                                  {entry.data && (
+                                    <details className="ml-2 inline">
+                                      <summary className="inline cursor-pointer text-gray-400">
+                                        data
+                                      </summary>
+                                      <pre className="whitespace-pre-wrap text-gray-600">
+                                        {JSON.stringify(entry.data, null, 2)}
+                                      </pre>
+                                    </details>
+                                  )}
+                                </li>
+                              ))}
+                          </ol>
                         </div>
                       </details>
                     )}
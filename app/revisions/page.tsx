@@ -0,0 +1,285 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+
+interface RevisionSummary {
+  revision: number;
+  jobId: string;
+  status: string;
+  createdAt: string;
+  completedAt?: string;
+  qaStatus?: "Approved" | "Not Approved";
+  pdfUrl?: string;
+}
+
+interface ValueChange {
+  from?: number;
+  to?: number;
+  delta?: number;
+}
+
+interface RevisionComparison {
+  articleId: string;
+  from: RevisionSummary;
+  to: RevisionSummary;
+  scores: Record<string, ValueChange>;
+  modelStats: Record<string, ValueChange>;
+  issues: {
+    resolved: string[];
+    introduced: string[];
+    unchanged: string[];
+  };
+}
+
+const SCORE_LABELS: Record<string, string> = {
+  silhouette: "Silhouette",
+  proportion: "Proportion",
+  colorMaterial: "Color/Material",
+  overall: "Overall",
+};
+
+const STAT_LABELS: Record<string, string> = {
+  triangles: "Polycount",
+  vertices: "Vertices",
+  meshCount: "Mesh Count",
+  materialCount: "Material Count",
+  doubleSidedCount: "Double-sided Materials",
+  fileSize: "File Size (bytes)",
+};
+
+export default function RevisionHistory() {
+  const [articleId, setArticleId] = useState("");
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [comparison, setComparison] = useState<RevisionComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load revisions and compare `to` against the revision before it
+  const fetchRevisions = useCallback(async (id: string, to?: number) => {
+    if (!id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ articleId: id });
+      if (to !== undefined) {
+        params.set("from", String(to - 1));
+        params.set("to", String(to));
+      }
+
+      const response = await fetch(`/api/revisions?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      setRevisions(data.revisions || []);
+      setComparison(data.comparison);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load revisions");
+      setRevisions([]);
+      setComparison(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Allow linking straight to an article: /revisions?articleId=123
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("articleId");
+    if (id) {
+      setArticleId(id);
+      fetchRevisions(id);
+    }
+  }, [fetchRevisions]);
+
+  const formatDelta = (change: ValueChange) => {
+    if (change.delta === undefined) return "—";
+    if (change.delta === 0) return "±0";
+    return change.delta > 0 ? `+${change.delta}` : String(change.delta);
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center p-6">
+      <div className="max-w-5xl w-full">
+        <div className="mb-6">
+          <Link href="/monitor" className="text-blue-500 hover:underline">
+            ← Back to Monitor
+          </Link>
+        </div>
+
+        <h1 className="text-3xl font-bold mb-8">🕓 QA Revision History</h1>
+
+        <div className="bg-white p-4 rounded-lg border mb-6 flex gap-2">
+          <input
+            value={articleId}
+            onChange={(e) => setArticleId(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && fetchRevisions(articleId)}
+            placeholder="Article ID"
+            className="flex-1 border rounded px-3 py-2 text-sm"
+          />
+          <button
+            onClick={() => fetchRevisions(articleId)}
+            disabled={isLoading || !articleId}
+            className="px-4 py-2 bg-blue-500 text-white rounded text-sm hover:bg-blue-600 disabled:bg-gray-400"
+          >
+            {isLoading ? "Loading..." : "Load History"}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {revisions.length > 0 && (
+          <div className="bg-white p-6 rounded-lg border mb-6">
+            <h2 className="text-xl font-bold mb-4">Revisions</h2>
+            <div className="space-y-2">
+              {revisions.map((rev) => (
+                <div
+                  key={rev.jobId}
+                  className={`flex justify-between items-center p-3 rounded border text-sm ${
+                    comparison?.to.revision === rev.revision
+                      ? "bg-blue-50 border-blue-300"
+                      : ""
+                  }`}
+                >
+                  <div>
+                    <span className="font-bold mr-3">#{rev.revision}</span>
+                    <span className="text-gray-500">
+                      {new Date(rev.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-xs bg-gray-100 px-2 py-1 rounded">
+                      {rev.status}
+                    </span>
+                    {rev.qaStatus && (
+                      <span
+                        className={`text-xs px-2 py-1 rounded ${
+                          rev.qaStatus === "Approved"
+                            ? "bg-green-100 text-green-800"
+                            : "bg-red-100 text-red-800"
+                        }`}
+                      >
+                        {rev.qaStatus}
+                      </span>
+                    )}
+                    {rev.pdfUrl && (
+                      <a
+                        href={rev.pdfUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-500 hover:underline text-xs"
+                      >
+                        📄 Report
+                      </a>
+                    )}
+                    {rev.revision > 1 && (
+                      <button
+                        onClick={() => fetchRevisions(articleId, rev.revision)}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Compare with #{rev.revision - 1}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {comparison && (
+          <div className="bg-white p-6 rounded-lg border">
+            <h2 className="text-xl font-bold mb-4">
+              Revision #{comparison.from.revision} → #{comparison.to.revision}
+            </h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+              <div>
+                <h3 className="font-semibold mb-2">Similarity Scores</h3>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {Object.entries(comparison.scores).map(([key, change]) => (
+                      <tr key={key} className="border-b">
+                        <td className="py-1">{SCORE_LABELS[key] || key}</td>
+                        <td className="py-1 text-right">
+                          {change.from ?? "—"}% → {change.to ?? "—"}%
+                        </td>
+                        <td
+                          className={`py-1 text-right ${
+                            (change.delta ?? 0) > 0
+                              ? "text-green-600"
+                              : (change.delta ?? 0) < 0
+                              ? "text-red-600"
+                              : "text-gray-500"
+                          }`}
+                        >
+                          {formatDelta(change)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2">Technical Stats</h3>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {Object.entries(comparison.modelStats).map(
+                      ([key, change]) => (
+                        <tr key={key} className="border-b">
+                          <td className="py-1">{STAT_LABELS[key] || key}</td>
+                          <td className="py-1 text-right">
+                            {change.from?.toLocaleString() ?? "—"} →{" "}
+                            {change.to?.toLocaleString() ?? "—"}
+                          </td>
+                          <td className="py-1 text-right text-gray-600">
+                            {formatDelta(change)}
+                          </td>
+                        </tr>
+                      )
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <h3 className="font-semibold mb-2">Issues</h3>
+            <div className="space-y-1 text-sm">
+              {comparison.issues.resolved.map((issue, i) => (
+                <div key={`resolved-${i}`} className="text-green-700">
+                  ✅ Resolved: {issue}
+                </div>
+              ))}
+              {comparison.issues.introduced.map((issue, i) => (
+                <div key={`introduced-${i}`} className="text-red-700">
+                  🆕 New: {issue}
+                </div>
+              ))}
+              {comparison.issues.unchanged.map((issue, i) => (
+                <div key={`unchanged-${i}`} className="text-gray-600">
+                  ↔️ Still present: {issue}
+                </div>
+              ))}
+              {comparison.issues.resolved.length === 0 &&
+                comparison.issues.introduced.length === 0 &&
+                comparison.issues.unchanged.length === 0 && (
+                  <div className="text-gray-500">
+                    No issues reported in either revision
+                  </div>
+                )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
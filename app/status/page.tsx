@@ -16,8 +16,58 @@ interface StatusChange {
   rowIndex: number;
   shouldStartQA: boolean;
   triggerType: string;
+  receivedAt?: string;
+  outcome?:
+    | "ignored"
+    | "enqueued"
+    | "deduplicated"
+    | "cancelled"
+    | "rejected"
+    | "collapsed";
+  jobId?: string;
+  reason?: string;
+  collapsedInto?: string;
 }
 
+interface HistoryFilters {
+  articleId: string;
+  sheet: string;
+  status: string;
+  oldStatus: string;
+  outcome: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: HistoryFilters = {
+  articleId: "",
+  sheet: "",
+  status: "",
+  oldStatus: "",
+  outcome: "",
+  from: "",
+  to: "",
+};
+
+const PAGE_SIZE = 50;
+
+const OUTCOME_BADGES: Record<string, { label: string; color: string }> = {
+  enqueued: {
+    label: "🚀 QA Triggered",
+    color: "bg-green-200 text-green-800",
+  },
+  deduplicated: {
+    label: "♻️ Already Queued",
+    color: "bg-blue-200 text-blue-800",
+  },
+  cancelled: {
+    label: "🛑 QA Cancelled",
+    color: "bg-orange-200 text-orange-800",
+  },
+  rejected: { label: "🚫 Rejected", color: "bg-red-200 text-red-800" },
+  collapsed: { label: "🔁 Collapsed", color: "bg-purple-200 text-purple-800" },
+};
+
 export default function StatusMonitor() {
   const [statusChanges, setStatusChanges] = useState<StatusChange[]>([]);
   const [testResult, setTestResult] = useState<string | null>(null);
@@ -26,37 +76,64 @@ export default function StatusMonitor() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [totalChanges, setTotalChanges] = useState(0);
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
 
   // Fetch status changes from the API
-  const fetchStatusChanges = useCallback(async (showLoading = false) => {
-    try {
-      if (showLoading) setIsLoading(true);
-      setError(null);
-
-      const response = await fetch("/api/status-change?limit=50");
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  const fetchStatusChanges = useCallback(
+    async (showLoading = false) => {
+      try {
+        if (showLoading) setIsLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams({
+          page: String(page),
+          pageSize: String(PAGE_SIZE),
+        });
+        Object.entries(filters).forEach(([name, value]) => {
+          if (!value) return;
+          // datetime-local inputs have no timezone; send them as ISO dates
+          params.set(
+            name,
+            name === "from" || name === "to"
+              ? new Date(value).toISOString()
+              : value
+          );
+        });
+
+        const response = await fetch(`/api/status-change?${params}`);
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+
+        if (data.recentChanges && Array.isArray(data.recentChanges)) {
+          setStatusChanges(data.recentChanges);
+          setTotalChanges(data.recentChangesCount || data.recentChanges.length);
+          setTotalPages(data.totalPages || 1);
+          setLastUpdate(new Date().toLocaleTimeString());
+        } else {
+          console.warn("No recentChanges array in response:", data);
+        }
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to fetch status changes";
+        setError(errorMessage);
+        console.error("Error fetching status changes:", err);
+      } finally {
+        if (showLoading) setIsLoading(false);
       }
+    },
+    [filters, page]
+  );
 
-      const data = await response.json();
-
-      if (data.recentChanges && Array.isArray(data.recentChanges)) {
-        setStatusChanges(data.recentChanges);
-        setTotalChanges(data.recentChangesCount || data.recentChanges.length);
-        setLastUpdate(new Date().toLocaleTimeString());
-      } else {
-        console.warn("No recentChanges array in response:", data);
-      }
-    } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Failed to fetch status changes";
-      setError(errorMessage);
-      console.error("Error fetching status changes:", err);
-    } finally {
-      if (showLoading) setIsLoading(false);
-    }
-  }, []);
+  const updateFilter = (name: keyof HistoryFilters, value: string) => {
+    setFilters((current) => ({ ...current, [name]: value }));
+    setPage(1);
+  };
 
   // Auto-refresh every 3 seconds when polling is enabled
   useEffect(() => {
@@ -151,6 +228,20 @@ export default function StatusMonitor() {
     return "bg-yellow-100 text-yellow-800";
   };
 
+  const renderOutcomeBadge = (change: StatusChange) => {
+    const badge = change.outcome && OUTCOME_BADGES[change.outcome];
+    if (!badge) return null;
+
+    return (
+      <span
+        className={`text-xs px-2 py-1 rounded font-medium ${badge.color}`}
+        title={change.reason}
+      >
+        {badge.label}
+      </span>
+    );
+  };
+
   return (
     <div className="flex min-h-screen flex-col items-center p-6">
       <div className="max-w-7xl w-full">
@@ -189,7 +280,7 @@ export default function StatusMonitor() {
               )}
 
               <span className="text-sm text-gray-500">
-                Total changes: {totalChanges}
+                Matching changes: {totalChanges}
               </span>
             </div>
 
@@ -280,10 +371,83 @@ export default function StatusMonitor() {
           </div>
         </div>
 
+        {/* History Filters */}
+        <div className="mb-6 p-4 bg-white rounded-lg border">
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="text-lg font-bold">🔍 Search History</h2>
+            <button
+              onClick={() => {
+                setFilters(EMPTY_FILTERS);
+                setPage(1);
+              }}
+              className="px-3 py-1 bg-gray-200 rounded text-sm hover:bg-gray-300"
+            >
+              Reset
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+            <input
+              value={filters.articleId}
+              onChange={(e) => updateFilter("articleId", e.target.value)}
+              placeholder="Article ID"
+              className="border rounded px-2 py-1"
+            />
+            <input
+              value={filters.sheet}
+              onChange={(e) => updateFilter("sheet", e.target.value)}
+              placeholder="Sheet name or ID"
+              className="border rounded px-2 py-1"
+            />
+            <input
+              value={filters.oldStatus}
+              onChange={(e) => updateFilter("oldStatus", e.target.value)}
+              placeholder="From status"
+              className="border rounded px-2 py-1"
+            />
+            <input
+              value={filters.status}
+              onChange={(e) => updateFilter("status", e.target.value)}
+              placeholder="To status"
+              className="border rounded px-2 py-1"
+            />
+            <select
+              value={filters.outcome}
+              onChange={(e) => updateFilter("outcome", e.target.value)}
+              className="border rounded px-2 py-1"
+            >
+              <option value="">All outcomes</option>
+              <option value="enqueued">Enqueued</option>
+              <option value="deduplicated">Deduplicated</option>
+              <option value="cancelled">Cancelled</option>
+              <option value="collapsed">Collapsed</option>
+              <option value="ignored">Ignored</option>
+              <option value="rejected">Rejected</option>
+            </select>
+            <label className="flex items-center gap-2">
+              <span className="text-gray-500">From</span>
+              <input
+                type="datetime-local"
+                value={filters.from}
+                onChange={(e) => updateFilter("from", e.target.value)}
+                className="border rounded px-2 py-1 flex-1"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-gray-500">To</span>
+              <input
+                type="datetime-local"
+                value={filters.to}
+                onChange={(e) => updateFilter("to", e.target.value)}
+                className="border rounded px-2 py-1 flex-1"
+              />
+            </label>
+          </div>
+        </div>
+
         {/* Status Changes Display */}
         <div className="bg-white p-6 rounded-lg border">
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-xl font-bold">📋 Recent Status Changes</h2>
+            <h2 className="text-xl font-bold">📋 Status Change History</h2>
             <div className="text-sm text-gray-500">
               {statusChanges.length} change
               {statusChanges.length !== 1 ? "s" : ""} shown
@@ -323,11 +487,7 @@ export default function StatusMonitor() {
                       <span className="text-sm bg-gray-200 px-2 py-1 rounded max-w-xs truncate">
                         {change.productName}
                       </span>
-                      {change.shouldStartQA && (
-                        <span className="text-xs bg-green-200 text-green-800 px-2 py-1 rounded font-medium">
-                          🚀 QA Triggered
-                        </span>
-                      )}
+                      {renderOutcomeBadge(change)}
                       <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
                         {change.triggerType}
                       </span>
@@ -369,6 +529,15 @@ export default function StatusMonitor() {
                           🖼️ References: {change.references?.length || 0} image
                           {(change.references?.length || 0) !== 1 ? "s" : ""}
                         </div>
+                        {change.jobId && <div>🧾 Job: {change.jobId}</div>}
+                        {change.collapsedInto && (
+                          <div>
+                            🔗 Collapsed into change {change.collapsedInto}
+                          </div>
+                        )}
+                        {change.reason && (
+                          <div className="text-red-600">⚠️ {change.reason}</div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -376,6 +545,28 @@ export default function StatusMonitor() {
               ))}
             </div>
           )}
+
+          {totalPages > 1 && (
+            <div className="flex justify-center items-center gap-3 mt-4 text-sm">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+              >
+                ← Newer
+              </button>
+              <span className="text-gray-500">
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+              >
+                Older →
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
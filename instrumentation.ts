@@ -0,0 +1,9 @@
+// instrumentation.ts
+
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { scheduler } = await import("./lib/scheduler");
+    scheduler.start();
+  }
+}
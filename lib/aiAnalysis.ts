@@ -1,5 +1,13 @@
 // lib/aiAnalysis.ts
 
+import {
+  InternalError,
+  PipelineError,
+  RateLimitError,
+  parseRetryAfter,
+} from "./errors";
+import { SpecProfile, getSpecProfile } from "./specProfiles";
+
 export interface AIAnalysisResult {
   differences: Array<{
     renderIndex: number;
@@ -32,6 +40,8 @@ export interface AIAnalysisInput {
     doubleSidedMaterials: string[];
     fileSize: number;
   };
+  specProfile?: string; // Technical limits to validate against (standard)
+  signal?: AbortSignal; // Aborts the OpenAI request when the job is cancelled
 }
 
 export class AIAnalyzer {
@@ -45,7 +55,7 @@ export class AIAnalyzer {
     this.openaiApiKey = apiKey;
   }
 
-  private createSystemPrompt(): string {
+  private createSystemPrompt(spec: SpecProfile): string {
     return `You are a 3D e-commerce QA specialist. Your job is to identify business-critical issues that would affect customer purchase decisions when comparing 3D model screenshots to reference images, AND validate technical specifications.
 
 ‼️ CORE MISSION ‼️
@@ -89,11 +99,15 @@ Only report differences that would make a customer confused, disappointed, or ca
 
 ‼️ TECHNICAL SPECIFICATIONS VALIDATION ‼️
 You will be provided with model technical statistics. Check these limits:
-• Polycount (triangles): MUST be ≤ 150,000
-• Mesh Count: MUST be ≤ 5
-• Material Count: MUST be ≤ 5
-• Double-sided Materials: MUST be = 0
-• File Size: MUST be ≤ 15MB
+• Polycount (triangles): MUST be ≤ ${spec.maxTriangles.toLocaleString("en-US")}
+• Mesh Count: MUST be ≤ ${spec.maxMeshes}
+• Material Count: MUST be ≤ ${spec.maxMaterials}
+• Double-sided Materials: MUST be ${
+      spec.maxDoubleSidedMaterials === 0
+        ? "= 0"
+        : `≤ ${spec.maxDoubleSidedMaterials}`
+    }
+• File Size: MUST be ≤ ${spec.maxFileSizeMB}MB
 
 If ANY technical specification exceeds these limits, the model MUST be marked as "Not Approved" regardless of visual quality.
 
@@ -170,12 +184,13 @@ Output *only* a single valid JSON object:
   private buildMessages(
     screenshots: string[],
     references: string[],
-    modelStats?: any
+    modelStats: any,
+    spec: SpecProfile
   ) {
     const messages: any[] = [
       {
         role: "system",
-        content: this.createSystemPrompt(),
+        content: this.createSystemPrompt(spec),
       },
     ];
 
@@ -224,7 +239,10 @@ Please validate these against the technical limits and include results in your a
   }
 
   // Call OpenAI API
-  private async callOpenAI(messages: any[]): Promise<AIAnalysisResult> {
+  private async callOpenAI(
+    messages: any[],
+    signal?: AbortSignal
+  ): Promise<AIAnalysisResult> {
     try {
       console.log("🤖 Calling OpenAI Vision API for analysis...");
 
@@ -243,12 +261,24 @@ Please validate these against the technical limits and include results in your a
             max_tokens: 4000,
             temperature: 0.1, // Low temperature for consistent analysis
           }),
+          signal,
         }
       );
 
       if (!response.ok) {
         const errorData = await response.text();
-        throw new Error(`OpenAI API error: ${response.status} - ${errorData}`);
+        const errorMsg = `OpenAI API error: ${response.status} - ${errorData}`;
+
+        if (response.status === 429) {
+          throw new RateLimitError(
+            errorMsg,
+            parseRetryAfter(response.headers.get("retry-after"))
+          );
+        }
+        if (response.status >= 500) {
+          throw new InternalError(errorMsg);
+        }
+        throw new Error(errorMsg);
       }
 
       const aiJson = await response.json();
@@ -301,8 +331,15 @@ Please validate these against the technical limits and include results in your a
 
   // Main analysis function
   async analyzeScreenshots(input: AIAnalysisInput): Promise<AIAnalysisResult> {
-    const { screenshots, references, articleId, productName, modelStats } =
-      input;
+    const {
+      screenshots,
+      references,
+      articleId,
+      productName,
+      modelStats,
+      specProfile,
+      signal,
+    } = input;
 
     console.log(`🔍 Starting AI analysis for Article ID: ${articleId}`);
     console.log(`📸 Screenshots: ${screenshots.length} images`);
@@ -350,11 +387,12 @@ Please validate these against the technical limits and include results in your a
       const messages = this.buildMessages(
         validScreenshots,
         validReferences,
-        modelStats
+        modelStats,
+        getSpecProfile(specProfile)
       );
 
       // Call OpenAI API
-      const result = await this.callOpenAI(messages);
+      const result = await this.callOpenAI(messages, signal);
 
       // Add metadata
       result.summary = `${result.summary}\n\nAnalysis for: ${productName} (Article ID: ${articleId})`;
@@ -365,6 +403,10 @@ Please validate these against the technical limits and include results in your a
         `❌ AI analysis failed for Article ID ${articleId}:`,
         error
       );
+
+      if (error instanceof PipelineError) {
+        throw error;
+      }
       throw new Error(
         `AI analysis failed: ${
           error instanceof Error ? error.message : "Unknown error"
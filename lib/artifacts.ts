@@ -0,0 +1,88 @@
+// lib/artifacts.ts
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { put } from "@vercel/blob";
+import type { QAJob } from "./queue";
+
+// A file produced by a dry-run job, kept on local disk instead of blob storage
+export interface LocalArtifact {
+  name: string;
+  contentType: string;
+  bytes: number;
+  path: string;
+  url: string; // Served by /api/artifacts/<jobId>/<name>
+}
+
+const DRY_RUN_DIR =
+  process.env.QA_DRY_RUN_DIR || path.join(os.tmpdir(), "qa-dry-run");
+
+function baseUrl(): string {
+  return process.env.VERCEL_URL
+    ? `https://${process.env.VERCEL_URL}`
+    : process.env.NEXT_PUBLIC_BASE_URL
+    ? process.env.NEXT_PUBLIC_BASE_URL
+    : "http://localhost:3000";
+}
+
+function safeSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+export function artifactPath(jobId: string, name: string): string {
+  return path.join(DRY_RUN_DIR, safeSegment(jobId), safeSegment(name));
+}
+
+// Store a screenshot, GLB or report. Real jobs upload it to public blob
+// storage; dry runs write it to the local temp area and record it on the job.
+export async function saveArtifact(
+  job: QAJob,
+  name: string,
+  data: Buffer,
+  contentType: string
+): Promise<string> {
+  if (!job.dryRun) {
+    const { url } = await put(name, data, { access: "public", contentType });
+    return url;
+  }
+
+  const filePath = artifactPath(job.id, name);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, data);
+
+  const artifact: LocalArtifact = {
+    name: path.basename(filePath),
+    contentType,
+    bytes: data.length,
+    path: filePath,
+    url: `${baseUrl()}/api/artifacts/${encodeURIComponent(
+      job.id
+    )}/${encodeURIComponent(path.basename(filePath))}`,
+  };
+  job.artifacts = [
+    ...(job.artifacts ?? []).filter((other) => other.name !== artifact.name),
+    artifact,
+  ];
+  console.log(
+    `🧪 Dry run: saved ${artifact.name} locally (${data.length} bytes)`
+  );
+  return artifact.url;
+}
+
+// Local artifact URLs only resolve on this machine. Outside services (the
+// OpenAI API) get the file inline as a data URL instead.
+export function inlineArtifact(job: QAJob, url: string): string {
+  const artifact = job.artifacts?.find((other) => other.url === url);
+  if (!artifact || !fs.existsSync(artifact.path)) return url;
+
+  const data = fs.readFileSync(artifact.path).toString("base64");
+  return `data:${artifact.contentType};base64,${data}`;
+}
+
+export function removeArtifacts(jobId: string) {
+  fs.rmSync(path.join(DRY_RUN_DIR, safeSegment(jobId)), {
+    recursive: true,
+    force: true,
+  });
+}
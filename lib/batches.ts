@@ -0,0 +1,418 @@
+// lib/batches.ts
+
+import crypto from "crypto";
+import fs from "fs";
+import globalQueue, {
+  JOB_PRIORITIES,
+  JobPriority,
+  QAJob,
+  QAJobInput,
+} from "./queue";
+import { dataPath, readJSONFile, writeJSONFile } from "./dataStore";
+import { QAJobOptions, validateJobOptions } from "./jobOptions";
+import { preflightReferences } from "./referenceValidator";
+
+export interface BatchRowResult {
+  row: number; // 1-based position in the submitted array / CSV data rows
+  articleId?: string;
+  accepted: boolean;
+  jobId?: string;
+  deduplicated?: boolean; // An existing pending/processing job was reused
+  error?: string;
+}
+
+export interface Batch {
+  id: string;
+  name: string;
+  createdAt: string;
+  rows: BatchRowResult[];
+}
+
+export interface BatchProgress {
+  id: string;
+  name: string;
+  createdAt: string;
+  totalRows: number;
+  accepted: number;
+  rejected: number;
+  jobs: Record<QAJob["status"] | "missing", number>;
+  percentComplete: number;
+  finished: boolean;
+  result: {
+    approved: number;
+    notApproved: number;
+    withoutAnalysis: number;
+    averageOverallScore?: number;
+    items: Array<{
+      row: number;
+      articleId: string;
+      jobId: string;
+      status: QAJob["status"] | "missing";
+      qaStatus?: "Approved" | "Not Approved";
+      overallScore?: number;
+      pdfUrl?: string;
+      error?: string;
+    }>;
+  };
+}
+
+export class BatchValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchValidationError";
+  }
+}
+
+const MAX_BATCH_ROWS = Number(process.env.QA_MAX_BATCH_ROWS) || 500;
+const MAX_STORED_BATCHES = Number(process.env.QA_MAX_STORED_BATCHES) || 100;
+
+// Check one submitted row and turn it into queue input
+function validateRow(raw: unknown): QAJobInput | string {
+  if (!raw || typeof raw !== "object") {
+    return "Row must be an object";
+  }
+
+  const row = raw as Record<string, unknown>;
+  const articleId =
+    typeof row.articleId === "number"
+      ? String(row.articleId)
+      : typeof row.articleId === "string"
+      ? row.articleId.trim()
+      : "";
+  const productName =
+    typeof row.productName === "string" ? row.productName.trim() : "";
+
+  if (!articleId) return "articleId is required";
+  if (!productName) return "productName is required";
+
+  const references = row.references ?? [];
+  if (
+    !Array.isArray(references) ||
+    references.some((ref) => typeof ref !== "string")
+  ) {
+    return "references must be an array of URLs";
+  }
+
+  if (
+    row.priority !== undefined &&
+    !JOB_PRIORITIES.includes(row.priority as JobPriority)
+  ) {
+    return `priority must be one of: ${JOB_PRIORITIES.join(", ")}`;
+  }
+
+  let options: QAJobOptions | undefined;
+  try {
+    options = validateJobOptions(row.options);
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid options";
+  }
+
+  for (const ref of references as string[]) {
+    try {
+      const url = new URL(ref);
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        return `Reference is not an http(s) URL: ${ref}`;
+      }
+    } catch {
+      return `Invalid reference URL: ${ref}`;
+    }
+  }
+
+  return {
+    articleId,
+    productName,
+    references: references as string[],
+    force: row.force === true,
+    dryRun: row.dryRun === true,
+    priority: row.priority as JobPriority | undefined,
+    options,
+  };
+}
+
+// Split one CSV line, honouring double-quoted fields
+function parseCSVLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields.map((value) => value.trim());
+}
+
+// Turn a CSV upload into batch rows. Expects a header with articleId and
+// productName; references come from a "references" column (URLs separated
+// by | or whitespace) and/or any columns named reference1, reference2...
+// An optional "priority" column sets urgent/normal/background per row.
+export function parseBatchCSV(text: string): Record<string, unknown>[] {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "");
+
+  if (lines.length === 0) {
+    throw new BatchValidationError("CSV is empty");
+  }
+
+  const header = parseCSVLine(lines[0]).map((name) => name.toLowerCase());
+  const articleCol = header.indexOf("articleid");
+  const productCol = header.indexOf("productname");
+  const priorityCol = header.indexOf("priority");
+
+  if (articleCol === -1 || productCol === -1) {
+    throw new BatchValidationError(
+      "CSV header must include articleId and productName columns"
+    );
+  }
+
+  const referenceCols = header
+    .map((name, i) => (/^references?\d*$/.test(name) ? i : -1))
+    .filter((i) => i !== -1);
+
+  return lines.slice(1).map((line) => {
+    const fields = parseCSVLine(line);
+    return {
+      articleId: fields[articleCol] ?? "",
+      productName: fields[productCol] ?? "",
+      references: referenceCols
+        .flatMap((i) => (fields[i] ?? "").split(/[|\s]+/))
+        .filter(Boolean),
+      ...(priorityCol !== -1 && fields[priorityCol]
+        ? { priority: fields[priorityCol].toLowerCase() }
+        : {}),
+    };
+  });
+}
+
+class BatchManager {
+  private filePath = dataPath("batches.json");
+  private batches: Batch[] = [];
+  private loadedMtimeMs = -1;
+
+  // The scheduler resolves batch targets through the copy of this module in
+  // the instrumentation.ts graph - pick up batches submitted through the API
+  private refresh() {
+    const mtimeMs =
+      fs.statSync(this.filePath, { throwIfNoEntry: false })?.mtimeMs ?? 0;
+    if (mtimeMs !== this.loadedMtimeMs) {
+      this.batches = readJSONFile(this.filePath, []);
+      this.loadedMtimeMs = mtimeMs;
+    }
+  }
+
+  private save() {
+    try {
+      writeJSONFile(this.filePath, this.batches);
+    } catch (error) {
+      console.error("❌ Failed to save batches:", error);
+    }
+  }
+
+  // Validate every row and enqueue the valid ones. Invalid rows (and rows
+  // the queue has no room for) are reported back instead of failing the
+  // whole batch.
+  async submit(name: string | undefined, rows: unknown[]): Promise<Batch> {
+    if (rows.length === 0) {
+      throw new BatchValidationError("Batch contains no rows");
+    }
+    if (rows.length > MAX_BATCH_ROWS) {
+      throw new BatchValidationError(
+        `Batch has ${rows.length} rows, the maximum is ${MAX_BATCH_ROWS}`
+      );
+    }
+
+    const batch: Batch = {
+      id: `batch_${crypto.randomUUID()}`,
+      name: name?.trim() || `Batch ${new Date().toISOString()}`,
+      createdAt: new Date().toISOString(),
+      rows: [],
+    };
+    const seen = new Set<string>();
+    const valid: Array<{ row: number; input: QAJobInput }> = [];
+
+    rows.forEach((raw, index) => {
+      const row = index + 1;
+      const input = validateRow(raw);
+
+      if (typeof input === "string") {
+        batch.rows.push({ row, accepted: false, error: input });
+        return;
+      }
+
+      if (seen.has(input.articleId)) {
+        batch.rows.push({
+          row,
+          articleId: input.articleId,
+          accepted: false,
+          error: "Duplicate articleId in this batch",
+        });
+        return;
+      }
+      seen.add(input.articleId);
+      valid.push({ row, input });
+    });
+
+    // Download every row's references up front; rows are still enqueued in
+    // submission order afterwards
+    const checked = await Promise.all(
+      valid.map(({ input }) =>
+        preflightReferences(input).then(
+          (checkedInput) => ({ input: checkedInput }),
+          (error: unknown) => ({ error })
+        )
+      )
+    );
+
+    valid.forEach(({ row, input }, i) => {
+      try {
+        const result = checked[i];
+        if ("error" in result) throw result.error;
+
+        const job = globalQueue.addJob({
+          ...result.input,
+          batchId: batch.id,
+        });
+        batch.rows.push({
+          row,
+          articleId: input.articleId,
+          accepted: true,
+          jobId: job.id,
+          ...(job.batchId !== batch.id ? { deduplicated: true } : {}),
+        });
+      } catch (error) {
+        batch.rows.push({
+          row,
+          articleId: input.articleId,
+          accepted: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+    batch.rows.sort((a, b) => a.row - b.row);
+
+    this.refresh();
+    this.batches.push(batch);
+    if (this.batches.length > MAX_STORED_BATCHES) {
+      this.batches = this.batches.slice(-MAX_STORED_BATCHES);
+    }
+    this.save();
+
+    const accepted = batch.rows.filter((row) => row.accepted).length;
+    console.log(
+      `📦 Batch "${batch.name}" submitted: ${accepted}/${rows.length} rows enqueued`
+    );
+
+    return batch;
+  }
+
+  getBatch(batchId: string): Batch | undefined {
+    this.refresh();
+    return this.batches.find((batch) => batch.id === batchId);
+  }
+
+  listBatches(): Batch[] {
+    this.refresh();
+    return [...this.batches].reverse();
+  }
+
+  // Current state of every job in the batch, plus the aggregated QA outcome
+  getProgress(batchId: string): BatchProgress | undefined {
+    const batch = this.getBatch(batchId);
+    if (!batch) return undefined;
+
+    const jobs: BatchProgress["jobs"] = {
+      pending: 0,
+      processing: 0,
+      completed: 0,
+      failed: 0,
+      cancelled: 0,
+      needs_references: 0,
+      missing: 0,
+    };
+    const items: BatchProgress["result"]["items"] = [];
+    let approved = 0;
+    let notApproved = 0;
+    let withoutAnalysis = 0;
+    const overallScores: number[] = [];
+
+    for (const row of batch.rows) {
+      if (!row.accepted || !row.jobId || !row.articleId) continue;
+
+      // Jobs can be pruned from the queue after a while
+      const job = globalQueue.getJob(row.jobId);
+      const status = job?.status ?? "missing";
+      jobs[status]++;
+
+      if (job?.status === "completed") {
+        if (job.aiAnalysis?.status === "Approved") approved++;
+        else if (job.aiAnalysis?.status === "Not Approved") notApproved++;
+        else withoutAnalysis++;
+
+        if (job.aiAnalysis?.scores) {
+          overallScores.push(job.aiAnalysis.scores.overall);
+        }
+      }
+
+      items.push({
+        row: row.row,
+        articleId: row.articleId,
+        jobId: row.jobId,
+        status,
+        qaStatus: job?.aiAnalysis?.status,
+        overallScore: job?.aiAnalysis?.scores?.overall,
+        pdfUrl: job?.pdfUrl,
+        error: job?.error,
+      });
+    }
+
+    const accepted = items.length;
+    const done = accepted - jobs.pending - jobs.processing;
+
+    return {
+      id: batch.id,
+      name: batch.name,
+      createdAt: batch.createdAt,
+      totalRows: batch.rows.length,
+      accepted,
+      rejected: batch.rows.length - accepted,
+      jobs,
+      percentComplete: accepted > 0 ? Math.round((done / accepted) * 100) : 100,
+      finished: done === accepted,
+      result: {
+        approved,
+        notApproved,
+        withoutAnalysis,
+        averageOverallScore:
+          overallScores.length > 0
+            ? Math.round(
+                overallScores.reduce((sum, score) => sum + score, 0) /
+                  overallScores.length
+              )
+            : undefined,
+        items,
+      },
+    };
+  }
+}
+
+export const batchManager = new BatchManager();
@@ -0,0 +1,18 @@
+// lib/contentHash.ts
+
+import crypto from "crypto";
+
+// SHA-256 of the GLB bytes - identical files give identical hashes no
+// matter when or from where they were downloaded
+export function hashGLB(buffer: Buffer): string {
+  return crypto.createHash("sha256").update(buffer).digest("hex");
+}
+
+// Reference order matters (the AI reports differences by reference index),
+// so hash the list as given
+export function hashReferences(references: string[]): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(references.map((ref) => ref.trim())))
+    .digest("hex");
+}
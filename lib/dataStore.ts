@@ -0,0 +1,72 @@
+// lib/dataStore.ts
+
+import fs from "fs";
+import path from "path";
+
+// Root folder for everything the app persists locally (QA_DATA_DIR)
+export function dataPath(...segments: string[]): string {
+  return path.join(
+    process.env.QA_DATA_DIR || path.join(process.cwd(), ".data"),
+    ...segments
+  );
+}
+
+export function readJSONFile<T>(filePath: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`❌ Failed to read ${filePath}:`, error);
+    }
+    return fallback;
+  }
+}
+
+// Write to a temp file first so readers never see a half-written file
+export function writeJSONFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
+
+// Append-only logs keep one JSON document per line, so recording an entry
+// never rewrites the whole file
+export function appendJSONLine(filePath: string, entry: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, JSON.stringify(entry) + "\n");
+}
+
+export function readJSONLines<T>(filePath: string): T[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`❌ Failed to read ${filePath}:`, error);
+    }
+    return [];
+  }
+
+  const entries: T[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // A crash mid-append can leave a partial last line
+      console.warn(`⚠️ Skipping unreadable line in ${filePath}`);
+    }
+  }
+  return entries;
+}
+
+export function writeJSONLines(filePath: string, entries: unknown[]): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(
+    tmpPath,
+    entries.map((entry) => JSON.stringify(entry) + "\n").join("")
+  );
+  fs.renameSync(tmpPath, filePath);
+}
@@ -0,0 +1,133 @@
+// lib/errors.ts
+
+export type PipelineErrorKind =
+  | "not_found"
+  | "invalid_glb"
+  | "rate_limit"
+  | "timeout"
+  | "cancelled"
+  | "interrupted"
+  | "internal";
+
+// Base class for failures in the QA pipeline. The kind decides whether the
+// queue should retry the job or fail it straight away.
+export class PipelineError extends Error {
+  readonly kind: PipelineErrorKind;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: PipelineErrorKind,
+    message: string,
+    options: { retryable: boolean; retryAfterMs?: number }
+  ) {
+    super(message);
+    this.name = "PipelineError";
+    this.kind = kind;
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// The GLB (or another required input) does not exist - retrying won't help
+export class NotFoundError extends PipelineError {
+  constructor(message: string) {
+    super("not_found", message, { retryable: false });
+    this.name = "NotFoundError";
+  }
+}
+
+// The downloaded file is empty or not a glTF binary
+export class InvalidGLBError extends PipelineError {
+  constructor(message: string) {
+    super("invalid_glb", message, { retryable: false });
+    this.name = "InvalidGLBError";
+  }
+}
+
+// An upstream provider (OpenAI, Drive) asked us to slow down
+export class RateLimitError extends PipelineError {
+  constructor(message: string, retryAfterMs?: number) {
+    super("rate_limit", message, { retryable: true, retryAfterMs });
+    this.name = "RateLimitError";
+  }
+}
+
+export class TimeoutError extends PipelineError {
+  constructor(message: string) {
+    super("timeout", message, { retryable: true });
+    this.name = "TimeoutError";
+  }
+}
+
+// Used as the abort reason when an operator cancels an in-flight job
+export class CancelledError extends PipelineError {
+  constructor(message: string) {
+    super("cancelled", message, { retryable: false });
+    this.name = "CancelledError";
+  }
+}
+
+// Used as the abort reason when the process shuts down mid-job. The job goes
+// back to pending and resumes from its last checkpoint on the next start.
+export class InterruptedError extends PipelineError {
+  constructor(message: string) {
+    super("interrupted", message, { retryable: true });
+    this.name = "InterruptedError";
+  }
+}
+
+// Anything unexpected - Chromium crashes, network blips, 5xx responses
+export class InternalError extends PipelineError {
+  constructor(message: string) {
+    super("internal", message, { retryable: true });
+    this.name = "InternalError";
+  }
+}
+
+// Map any thrown value onto a pipeline error
+export function classifyError(error: unknown): PipelineError {
+  if (error instanceof PipelineError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : "Unknown error";
+
+  // Puppeteer and AbortSignal.timeout() both throw errors named TimeoutError
+  if (
+    (error instanceof Error && error.name === "TimeoutError") ||
+    /timed? ?out/i.test(message)
+  ) {
+    return new TimeoutError(message);
+  }
+
+  return new InternalError(message);
+}
+
+// Parse a Retry-After header (seconds or HTTP date) into milliseconds
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = new Date(header).getTime();
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+const RETRY_BASE_DELAY_MS = Number(process.env.QA_RETRY_BASE_DELAY_MS) || 10000;
+const RETRY_MAX_DELAY_MS = Number(process.env.QA_RETRY_MAX_DELAY_MS) || 600000;
+
+// Exponential backoff with jitter: somewhere between half and the full delay
+// for this attempt, but never sooner than the provider asked for
+export function computeBackoff(attempt: number, retryAfterMs?: number): number {
+  const exponential = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1)
+  );
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+
+  return Math.round(Math.max(jittered, retryAfterMs ?? 0));
+}
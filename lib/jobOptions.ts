@@ -0,0 +1,147 @@
+// lib/jobOptions.ts
+
+import { DEFAULT_SPEC_PROFILE, SPEC_PROFILES } from "./specProfiles";
+
+// Camera positions a screenshot can be taken from (model-viewer camera-orbit)
+export const CAMERA_ORBITS = {
+  front: "0deg 75deg 4m",
+  back: "180deg 75deg 4m",
+  left: "-90deg 75deg 4m",
+  right: "90deg 75deg 4m",
+  top: "0deg 0deg 4m",
+  isometric: "45deg 55deg 4m",
+};
+
+export type CameraAngle = keyof typeof CAMERA_ORBITS;
+
+export const CAMERA_ANGLES = Object.keys(CAMERA_ORBITS) as CameraAngle[];
+
+// PDFKit can only embed JPEG and PNG screenshots
+export type ImageFormat = "jpeg" | "png";
+
+// How a single job is processed. Everything is optional; unset fields use
+// the defaults below.
+export interface QAJobOptions {
+  angles?: CameraAngle[];
+  resolution?: { width: number; height: number };
+  imageFormat?: ImageFormat;
+  specProfile?: string;
+  skipAI?: boolean;
+  skipPDF?: boolean; // Implied by skipAI - the report needs the analysis
+  skipSheetUpdate?: boolean;
+}
+
+export type ResolvedJobOptions = Required<QAJobOptions>;
+
+export const DEFAULT_JOB_OPTIONS: ResolvedJobOptions = {
+  angles: ["front", "back", "left", "right", "isometric"],
+  resolution: { width: 1600, height: 1200 },
+  imageFormat: "jpeg",
+  specProfile: DEFAULT_SPEC_PROFILE,
+  skipAI: false,
+  skipPDF: false,
+  skipSheetUpdate: false,
+};
+
+const MIN_DIMENSION = 256;
+const MAX_DIMENSION = 4096;
+
+export class JobOptionsValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobOptionsValidationError";
+  }
+}
+
+// Check options submitted to an API route. Returns undefined when nothing
+// was given so jobs without options stay as they were.
+export function validateJobOptions(raw: unknown): QAJobOptions | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new JobOptionsValidationError("options must be an object");
+  }
+
+  const input = raw as Record<string, unknown>;
+  const options: QAJobOptions = {};
+
+  if (input.angles !== undefined) {
+    if (
+      !Array.isArray(input.angles) ||
+      input.angles.length === 0 ||
+      input.angles.some((angle) => !CAMERA_ANGLES.includes(angle))
+    ) {
+      throw new JobOptionsValidationError(
+        `options.angles must be a non-empty list of: ${CAMERA_ANGLES.join(
+          ", "
+        )}`
+      );
+    }
+    options.angles = Array.from(new Set(input.angles as CameraAngle[]));
+  }
+
+  if (input.resolution !== undefined) {
+    const { width, height } = (input.resolution ?? {}) as Record<
+      string,
+      unknown
+    >;
+    const valid = (value: unknown) =>
+      Number.isInteger(value) &&
+      (value as number) >= MIN_DIMENSION &&
+      (value as number) <= MAX_DIMENSION;
+
+    if (!valid(width) || !valid(height)) {
+      throw new JobOptionsValidationError(
+        `options.resolution needs integer width and height between ${MIN_DIMENSION} and ${MAX_DIMENSION}`
+      );
+    }
+    options.resolution = { width: width as number, height: height as number };
+  }
+
+  if (input.imageFormat !== undefined) {
+    if (input.imageFormat !== "jpeg" && input.imageFormat !== "png") {
+      throw new JobOptionsValidationError(
+        'options.imageFormat must be "jpeg" or "png"'
+      );
+    }
+    options.imageFormat = input.imageFormat;
+  }
+
+  if (input.specProfile !== undefined) {
+    if (
+      typeof input.specProfile !== "string" ||
+      !SPEC_PROFILES[input.specProfile]
+    ) {
+      throw new JobOptionsValidationError(
+        `Unknown spec profile: ${String(
+          input.specProfile
+        )}. Use one of: ${Object.keys(SPEC_PROFILES).join(", ")}`
+      );
+    }
+    options.specProfile = input.specProfile;
+  }
+
+  for (const flag of ["skipAI", "skipPDF", "skipSheetUpdate"] as const) {
+    if (input[flag] !== undefined) {
+      if (typeof input[flag] !== "boolean") {
+        throw new JobOptionsValidationError(
+          `options.${flag} must be a boolean`
+        );
+      }
+      options[flag] = input[flag];
+    }
+  }
+
+  return options;
+}
+
+export function resolveJobOptions(options?: QAJobOptions): ResolvedJobOptions {
+  return { ...DEFAULT_JOB_OPTIONS, ...options };
+}
+
+// The options that change what the screenshots and analysis look like, so
+// a cached run is only reused when they match
+export function renderOptionsKey(options?: QAJobOptions): string {
+  const { angles, resolution, imageFormat, specProfile } =
+    resolveJobOptions(options);
+  return JSON.stringify({ angles, resolution, imageFormat, specProfile });
+}
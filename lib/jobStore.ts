@@ -0,0 +1,232 @@
+// lib/jobStore.ts
+
+import fs from "fs";
+import path from "path";
+import type { QAJob } from "./queue";
+import { dataPath, writeJSONFile } from "./dataStore";
+
+export interface JobStore {
+  loadAll(): QAJob[];
+  load(jobId: string): QAJob | undefined;
+  save(job: QAJob): void;
+  remove(jobId: string): void;
+  // Take a lease on a waiting job so no other worker runs it. Returns the
+  // stored job, or undefined if it is gone, finished or leased elsewhere.
+  claim(jobId: string, owner: string, leaseMs: number): QAJob | undefined;
+  // Save a job only while the stored copy is still leased by owner. Returns
+  // false once the lease was lost (expired and re-claimed, or cancelled).
+  saveLeased(job: QAJob, owner: string): boolean;
+  // Change a job without holding its lease (cancel, reprioritize). mutate
+  // gets the stored copy (undefined if there is none) and returns the job
+  // to save; runs under the same lock as claim and saveLeased.
+  updateUnleased(
+    jobId: string,
+    mutate: (stored: QAJob | undefined) => QAJob
+  ): QAJob;
+}
+
+// Pending jobs, and processing jobs whose worker stopped renewing its lease
+export function isClaimable(job: QAJob, now = Date.now()): boolean {
+  if (job.status !== "pending" && job.status !== "processing") return false;
+  return !job.leaseExpiresAt || new Date(job.leaseExpiresAt).getTime() <= now;
+}
+
+function isLeasedBy(job: QAJob | undefined, owner: string): boolean {
+  return (
+    (job?.status === "pending" || job?.status === "processing") &&
+    job.leaseOwner === owner
+  );
+}
+
+function takeLease(job: QAJob, owner: string, leaseMs: number): QAJob {
+  job.leaseOwner = owner;
+  job.leaseExpiresAt = new Date(Date.now() + leaseMs).toISOString();
+  return job;
+}
+
+const LOCK_STALE_MS = 10 * 1000;
+const LOCK_WAIT_MS = 2 * 1000;
+
+function sleepSync(ms: number) {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+// File-backed store - one JSON file per job so a crash mid-write can only
+// ever affect the job being written
+export class FileJobStore implements JobStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  private jobPath(jobId: string): string {
+    // Job IDs contain the article ID, which comes from the sheet
+    const safeId = jobId.replace(/[^a-zA-Z0-9._-]/g, "_");
+    return path.join(this.dir, `${safeId}.json`);
+  }
+
+  // Serialize read-modify-write of one job file across processes. Creating
+  // the lock file with "wx" fails if another process already holds it.
+  private withLock<T>(jobId: string, fn: () => T): T {
+    const lockPath = `${this.jobPath(jobId)}.lock`;
+    const deadline = Date.now() + LOCK_WAIT_MS;
+
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(lockPath, "wx"));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+
+        // A process that died while holding the lock leaves it behind
+        const lockedAt = fs.statSync(lockPath, { throwIfNoEntry: false });
+        if (lockedAt && Date.now() - lockedAt.mtimeMs > LOCK_STALE_MS) {
+          fs.rmSync(lockPath, { force: true });
+        } else if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for lock on job ${jobId}`);
+        } else {
+          sleepSync(20);
+        }
+      }
+    }
+
+    try {
+      return fn();
+    } finally {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+
+  loadAll(): QAJob[] {
+    const jobs: QAJob[] = [];
+
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith(".json")) continue;
+
+      try {
+        const raw = fs.readFileSync(path.join(this.dir, file), "utf8");
+        jobs.push(JSON.parse(raw));
+      } catch (error) {
+        console.error(`❌ Failed to read stored job ${file}:`, error);
+      }
+    }
+
+    return jobs;
+  }
+
+  load(jobId: string): QAJob | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.jobPath(jobId), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`❌ Failed to read stored job ${jobId}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  save(job: QAJob): void {
+    writeJSONFile(this.jobPath(job.id), job);
+  }
+
+  remove(jobId: string): void {
+    fs.rmSync(this.jobPath(jobId), { force: true });
+  }
+
+  claim(jobId: string, owner: string, leaseMs: number): QAJob | undefined {
+    return this.withLock(jobId, () => {
+      const job = this.load(jobId);
+      if (!job || !isClaimable(job)) return undefined;
+
+      this.save(takeLease(job, owner, leaseMs));
+      return job;
+    });
+  }
+
+  saveLeased(job: QAJob, owner: string): boolean {
+    return this.withLock(job.id, () => {
+      if (!isLeasedBy(this.load(job.id), owner)) return false;
+
+      this.save(job);
+      return true;
+    });
+  }
+
+  updateUnleased(
+    jobId: string,
+    mutate: (stored: QAJob | undefined) => QAJob
+  ): QAJob {
+    return this.withLock(jobId, () => {
+      const job = mutate(this.load(jobId));
+      this.save(job);
+      return job;
+    });
+  }
+}
+
+// In-memory store - nothing survives a restart, useful for local testing
+export class MemoryJobStore implements JobStore {
+  private jobs: Map<string, QAJob> = new Map();
+
+  loadAll(): QAJob[] {
+    return Array.from(this.jobs.values()).map((job) => structuredClone(job));
+  }
+
+  load(jobId: string): QAJob | undefined {
+    const job = this.jobs.get(jobId);
+    return job && structuredClone(job);
+  }
+
+  save(job: QAJob): void {
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  remove(jobId: string): void {
+    this.jobs.delete(jobId);
+  }
+
+  claim(jobId: string, owner: string, leaseMs: number): QAJob | undefined {
+    const job = this.load(jobId);
+    if (!job || !isClaimable(job)) return undefined;
+
+    this.save(takeLease(job, owner, leaseMs));
+    return job;
+  }
+
+  saveLeased(job: QAJob, owner: string): boolean {
+    if (!isLeasedBy(this.jobs.get(job.id), owner)) return false;
+
+    this.save(job);
+    return true;
+  }
+
+  updateUnleased(
+    jobId: string,
+    mutate: (stored: QAJob | undefined) => QAJob
+  ): QAJob {
+    const job = mutate(this.load(jobId));
+    this.save(job);
+    return job;
+  }
+}
+
+// Pick the store from the environment (QA_JOB_STORE=memory|file)
+export function createJobStore(): JobStore {
+  if (process.env.QA_JOB_STORE === "memory") {
+    if (process.env.QA_WORKER_MODE) {
+      console.warn(
+        "⚠️ QA_WORKER_MODE needs the shared file job store, the in-memory store is per process"
+      );
+    }
+    console.log(
+      "💾 Using in-memory job store (jobs will not survive restarts)"
+    );
+    return new MemoryJobStore();
+  }
+
+  const dir = process.env.QA_JOB_STORE_DIR || dataPath("jobs");
+  console.log(`💾 Using file job store at: ${dir}`);
+  return new FileJobStore(dir);
+}
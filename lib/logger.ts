@@ -0,0 +1,109 @@
+// lib/logger.ts
+
+import type { QAStage } from "./queue";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// Ordered from least to most severe
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  stage?: QAStage;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export function createLogEntry(
+  level: LogLevel,
+  message: string,
+  stage?: QAStage,
+  data?: Record<string, unknown>
+): LogEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    level,
+    ...(stage ? { stage } : {}),
+    message,
+    ...(data ? { data } : {}),
+  };
+}
+
+// Collects the log entries of one pipeline stage. Entries are handed to the
+// sink as they happen so the job log stays complete even if the stage throws.
+export class StageLogger {
+  readonly entries: LogEntry[] = [];
+  private stage: QAStage;
+  private sink?: LogSink;
+
+  constructor(stage: QAStage, sink?: LogSink) {
+    this.stage = stage;
+    this.sink = sink;
+  }
+
+  debug(message: string, data?: Record<string, unknown>) {
+    this.write("debug", message, data);
+  }
+
+  info(message: string, data?: Record<string, unknown>) {
+    this.write("info", message, data);
+  }
+
+  warn(message: string, data?: Record<string, unknown>) {
+    this.write("warn", message, data);
+  }
+
+  error(message: string, data?: Record<string, unknown>) {
+    this.write("error", message, data);
+  }
+
+  private write(
+    level: LogLevel,
+    message: string,
+    data?: Record<string, unknown>
+  ) {
+    const entry = createLogEntry(level, message, this.stage, data);
+    this.entries.push(entry);
+    this.sink?.(entry);
+  }
+}
+
+// Jobs stored before logs were structured have plain strings - keep them
+// readable, guessing the level from the emoji they were written with
+export function normalizeLogEntry(
+  entry: LogEntry | string,
+  fallbackTimestamp: string
+): LogEntry {
+  if (typeof entry !== "string") {
+    return entry;
+  }
+
+  const level: LogLevel = entry.startsWith("❌")
+    ? "error"
+    : entry.startsWith("⚠️") || entry.startsWith("⏰")
+    ? "warn"
+    : "info";
+
+  return {
+    timestamp: fallbackTimestamp,
+    level,
+    message: entry.replace(/^(❌|⚠️|✅|⏰|⏭️)\s*/u, ""),
+  };
+}
+
+// Keep entries at or above minLevel and, if given, from a single stage
+export function filterLogs(
+  entries: LogEntry[],
+  filter: { minLevel?: LogLevel; stage?: QAStage }
+): LogEntry[] {
+  const minIndex = filter.minLevel ? LOG_LEVELS.indexOf(filter.minLevel) : 0;
+
+  return entries.filter(
+    (entry) =>
+      LOG_LEVELS.indexOf(entry.level) >= minIndex &&
+      (!filter.stage || entry.stage === filter.stage)
+  );
+}
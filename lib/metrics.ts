@@ -0,0 +1,230 @@
+// lib/metrics.ts
+
+// Minimal Prometheus registry - counters, gauges and histograms rendered in
+// the text exposition format served by /api/metrics. Metrics live in the
+// memory of the process that records them: with QA_WORKER_MODE=external the
+// job metrics come from each worker's own endpoint (see scripts/worker.ts).
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((key) => [key, labels[key]])
+  );
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) =>
+      `${key}="${value
+        .replace(/\\/g, "\\\\")
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, "\\n")}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  readonly name: string;
+  readonly help: string;
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    this.values.set(key, { labels, value: (current?.value ?? 0) + value });
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.values.values()).map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+export class Gauge implements Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  readonly name: string;
+  readonly help: string;
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  set(labels: Labels, value: number) {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...Array.from(this.values.values()).map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private series: Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  > = new Map();
+
+  readonly name: string;
+  readonly help: string;
+  readonly bounds: number[];
+
+  constructor(name: string, help: string, bounds: number[]) {
+    this.name = name;
+    this.help = help;
+    this.bounds = bounds;
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels,
+        buckets: this.bounds.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+
+    for (let i = 0; i < this.bounds.length; i++) {
+      if (value <= this.bounds[i]) series.buckets[i]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({
+            ...labels,
+            le: String(bound),
+          })} ${buckets[i]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`
+      );
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+}
+
+class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, bounds: number[]): Histogram {
+    return this.register(new Histogram(name, help, bounds));
+  }
+
+  // A second copy of this module gets the metric the first one registered
+  private register<T extends Metric>(metric: T): T {
+    const existing = this.metrics.find((other) => other.name === metric.name);
+    if (existing) return existing as T;
+
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return this.metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+}
+
+// Shared across copies of this module (Next.js loads instrumentation.ts in
+// its own module graph), so the queue and /api/metrics see the same values
+export const metrics = ((
+  globalThis as { __qaMetrics?: MetricsRegistry }
+).__qaMetrics ??= new MetricsRegistry());
+
+// Recorded by the queue as jobs move through the pipeline
+export const jobsFinished = metrics.counter(
+  "qa_jobs_finished_total",
+  "Jobs that reached a final status, by status"
+);
+export const jobRetries = metrics.counter(
+  "qa_job_retries_total",
+  "Job attempts that failed and were scheduled for retry, by error type"
+);
+export const qaResults = metrics.counter(
+  "qa_results_total",
+  "Completed QA analyses, by result (approved or not_approved)"
+);
+export const cacheHits = metrics.counter(
+  "qa_cache_hits_total",
+  "Jobs that reused the results of an earlier run of an unchanged GLB"
+);
+export const stageDuration = metrics.histogram(
+  "qa_stage_duration_seconds",
+  "Time spent running each pipeline stage, by stage and outcome",
+  [1, 5, 10, 30, 60, 120, 300, 600]
+);
+
+// Recorded by /api/status-change
+export const statusChangeRejections = metrics.counter(
+  "qa_status_change_rejected_total",
+  "Status-change requests rejected as malformed or by signature checks, by reason"
+);
+
+// Filled in from the queue state on every scrape
+export const queueJobs = metrics.gauge(
+  "qa_queue_jobs",
+  "Jobs currently held by the queue, by status"
+);
+export const busyWorkers = metrics.gauge(
+  "qa_workers_busy",
+  "Workers currently processing a job"
+);
+export const approvalRatio = metrics.gauge(
+  "qa_approval_ratio",
+  "Share of completed QA analyses that were approved"
+);
@@ -1,22 +1,27 @@
 // lib/pdfGenerator.ts
 
 import PDFDocument from "pdfkit";
-import { put } from "@vercel/blob";
 import fs from "fs";
 import path from "path";
 import { QAJob } from "./queue";
+import { LogEntry, LogSink, StageLogger } from "./logger";
+import { getSpecProfile } from "./specProfiles";
+import { saveArtifact } from "./artifacts";
+import { projectRegistry, reportBranding } from "./projects";
 
 export interface PDFGenerationResult {
   pdfUrl: string;
   annotatedImages: string[];
-  processingLogs: string[];
+  processingLogs: LogEntry[];
 }
 
 export class PDFGenerator {
   private tmpDir: string;
+  private signal?: AbortSignal;
 
-  constructor(jobId: string) {
+  constructor(jobId: string, signal?: AbortSignal) {
     this.tmpDir = path.join("/tmp", jobId);
+    this.signal = signal;
   }
 
   private async downloadImages(urls: string[]): Promise<string[]> {
@@ -38,7 +43,7 @@ export class PDFGenerator {
         buf = Buffer.from(m[2], "base64");
         ext = m[1].split("/")[1] || "png";
       } else {
-        const res = await fetch(url);
+        const res = await fetch(url, { signal: this.signal });
         if (!res.ok)
           throw new Error(
             `Fetch failed (${res.status}) for image ${idx}: ${url}`
@@ -111,6 +116,7 @@ export class PDFGenerator {
           images: imagePayload,
           diff_json: fs.readFileSync(diffPath, "utf-8"),
         }),
+        signal: this.signal,
       });
 
       if (!response.ok) {
@@ -154,6 +160,7 @@ export class PDFGenerator {
 
       return annotated;
     } catch (error) {
+      this.signal?.throwIfAborted();
       console.error("Annotation service failed:", error);
       // Always fallback to original screenshots
       return await this.downloadImages(job.screenshots);
@@ -169,11 +176,12 @@ export class PDFGenerator {
         const ttf = path.join(process.cwd(), "fonts", "Roboto-Regular.ttf");
         const logoPath = path.join(this.tmpDir, "logo.png");
         let hasLogo = false;
+        const { logoUrl, reportTitle } = reportBranding(
+          job.projectId ? projectRegistry.getProject(job.projectId) : undefined
+        );
 
         try {
-          const logoRes = await fetch(
-            "https://charpstar.se/Synsam/NewIntegrationtest/Charpstar-Logo.png"
-          );
+          const logoRes = await fetch(logoUrl, { signal: this.signal });
           if (logoRes.ok) {
             const logoBuffer = Buffer.from(await logoRes.arrayBuffer());
             fs.writeFileSync(logoPath, logoBuffer);
@@ -189,7 +197,7 @@ export class PDFGenerator {
           margins: { top: 50, bottom: 50, left: 50, right: 50 },
           font: ttf,
           info: {
-            Title: "3D Model QA Report",
+            Title: reportTitle,
             Author: "3D Model QA Automator",
           },
         });
@@ -205,9 +213,9 @@ export class PDFGenerator {
         // Header with logo
         if (hasLogo) {
           doc.image(logoPath, 40, 40, { width: 150 });
-          doc.fontSize(14).text("3D Model QA Report", 50, 85);
+          doc.fontSize(14).text(reportTitle, 50, 85);
         } else {
-          doc.font("MainFont").fontSize(16).text("3D Model QA Report");
+          doc.font("MainFont").fontSize(16).text(reportTitle);
         }
 
         // Article information
@@ -263,6 +271,12 @@ export class PDFGenerator {
         // Start new page for Technical Overview
         doc.addPage();
         doc.fontSize(14).text("Technical Overview", { align: "left" });
+        const spec = getSpecProfile(job.options?.specProfile);
+        doc
+          .fontSize(10)
+          .fillColor("#5f6368")
+          .text(`Spec profile: ${spec.name} (${spec.description})`);
+        doc.fillColor("#000000");
         doc.moveDown(1.5);
 
         // Function to add property lines with status indicators
@@ -327,19 +341,23 @@ export class PDFGenerator {
           (stats.vertices > 0 || stats.meshCount > 0 || stats.materialCount > 0)
         ) {
           // Use actual model stats
-          addPropertyLine("Polycount", stats.triangles || 0, 150000);
+          addPropertyLine("Polycount", stats.triangles || 0, spec.maxTriangles);
           addPropertyLine("Vertices", stats.vertices || 0);
-          addPropertyLine("Mesh Count", stats.meshCount || 0, 5);
-          addPropertyLine("Material Count", stats.materialCount || 0, 5);
+          addPropertyLine("Mesh Count", stats.meshCount || 0, spec.maxMeshes);
+          addPropertyLine(
+            "Material Count",
+            stats.materialCount || 0,
+            spec.maxMaterials
+          );
           addPropertyLine(
             "Double-sided Materials",
             stats.doubleSidedCount || 0,
-            0
+            spec.maxDoubleSidedMaterials
           );
           addPropertyLine(
             "File Size",
             parseFloat(((stats.fileSize || 0) / (1024 * 1024)).toFixed(2)),
-            15,
+            spec.maxFileSizeMB,
             "MB"
           );
         } else {
@@ -394,11 +412,11 @@ export class PDFGenerator {
     });
   }
 
-  async generatePDF(job: QAJob): Promise<PDFGenerationResult> {
-    const logs: string[] = [];
+  async generatePDF(job: QAJob, sink?: LogSink): Promise<PDFGenerationResult> {
+    const log = new StageLogger("pdf", sink);
 
     try {
-      logs.push(`Starting PDF generation for Article ID: ${job.articleId}`);
+      log.info(`Starting PDF generation for Article ID: ${job.articleId}`);
 
       if (!job.screenshots || !job.aiAnalysis) {
         throw new Error(
@@ -407,21 +425,29 @@ export class PDFGenerator {
       }
 
       const annotatedImages = await this.getAnnotatedImages(job);
-      logs.push(`Generated ${annotatedImages.length} images`);
+      log.info(`Generated ${annotatedImages.length} images`);
 
       const pdfBuffer = await this.generatePDFDocument(annotatedImages, job);
-      logs.push(`PDF generated: ${pdfBuffer.length} bytes`);
+      log.info(`PDF generated: ${pdfBuffer.length} bytes`, {
+        bytes: pdfBuffer.length,
+      });
+
+      // A report finished after the job was aborted must not replace the
+      // one a retry produces
+      this.signal?.throwIfAborted();
 
       const filename = `qa-report-${job.articleId}-${Date.now()}.pdf`;
-      const { url } = await put(filename, pdfBuffer, {
-        access: "public",
-        contentType: "application/pdf",
-      });
-      logs.push(`PDF uploaded successfully: ${url}`);
+      const url = await saveArtifact(
+        job,
+        filename,
+        pdfBuffer,
+        "application/pdf"
+      );
+      log.info(`PDF uploaded successfully: ${url}`);
 
       if (fs.existsSync(this.tmpDir)) {
         fs.rmSync(this.tmpDir, { recursive: true, force: true });
-        logs.push("Temporary files cleaned up");
+        log.debug("Temporary files cleaned up");
       }
 
       return {
@@ -429,17 +455,18 @@ export class PDFGenerator {
         annotatedImages: annotatedImages.map(
           (path) => path.split("/").pop() || ""
         ),
-        processingLogs: logs,
+        processingLogs: log.entries,
       };
     } catch (error) {
-      const errorMsg = `PDF generation failed: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`;
-      logs.push(`❌ ${errorMsg}`);
-
       if (fs.existsSync(this.tmpDir)) {
         fs.rmSync(this.tmpDir, { recursive: true, force: true });
       }
+      this.signal?.throwIfAborted();
+
+      const errorMsg = `PDF generation failed: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+      log.error(errorMsg);
 
       throw new Error(errorMsg);
     }
@@ -447,8 +474,10 @@ export class PDFGenerator {
 }
 
 export async function generateQAReport(
-  job: QAJob
+  job: QAJob,
+  sink?: LogSink,
+  signal?: AbortSignal
 ): Promise<PDFGenerationResult> {
-  const generator = new PDFGenerator(job.id);
-  return await generator.generatePDF(job);
+  const generator = new PDFGenerator(job.id, signal);
+  return await generator.generatePDF(job, sink);
 }
@@ -0,0 +1,225 @@
+// lib/projects.ts
+
+import fs from "fs";
+import { SPEC_PROFILES } from "./specProfiles";
+import { dataPath, readJSONFile, writeJSONFile } from "./dataStore";
+
+// A retail client we QA for. Jobs are matched to a project by the sheet
+// that triggered them; anything a project leaves unset falls back to the
+// global environment configuration.
+export interface Project {
+  id: string; // Short slug, e.g. "synsam"
+  name: string;
+  sheetIds: string[];
+  driveFolderId?: string; // GLB source folder (GOOGLE_DRIVE_FOLDER_ID)
+  appsScriptUrl?: string; // Sheet write-back target (GOOGLE_SCRIPT_WEB_APP_URL)
+  specProfile?: string; // Default spec profile for the project's jobs
+  branding?: {
+    logoUrl?: string;
+    reportTitle?: string;
+  };
+  // Sheet statuses that start a QA run; defaults to anything "deliver"
+  // except negations such as "Undelivered"
+  triggerStatuses?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ProjectInput = Omit<Project, "createdAt" | "updatedAt">;
+
+export class ProjectValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectValidationError";
+  }
+}
+
+const DEFAULT_LOGO_URL =
+  "https://charpstar.se/Synsam/NewIntegrationtest/Charpstar-Logo.png";
+const DEFAULT_REPORT_TITLE = "3D Model QA Report";
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw new ProjectValidationError(`${field} must be a string`);
+  }
+  return value.trim();
+}
+
+function optionalUrl(value: unknown, field: string): string | undefined {
+  const url = optionalString(value, field);
+  if (url && !/^https?:\/\//.test(url)) {
+    throw new ProjectValidationError(`${field} must be an http(s) URL`);
+  }
+  return url;
+}
+
+function validateProject(raw: unknown): ProjectInput {
+  const input = (raw ?? {}) as Record<string, unknown>;
+
+  const id = optionalString(input.id, "id");
+  if (!id || !/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+    throw new ProjectValidationError(
+      "id is required and may only contain lowercase letters, digits and dashes"
+    );
+  }
+
+  if (
+    !Array.isArray(input.sheetIds) ||
+    input.sheetIds.length === 0 ||
+    input.sheetIds.some((sheetId) => typeof sheetId !== "string" || !sheetId)
+  ) {
+    throw new ProjectValidationError("sheetIds must be a non-empty list");
+  }
+
+  // Interpolated into the Drive search query
+  const driveFolderId = optionalString(input.driveFolderId, "driveFolderId");
+  if (driveFolderId && !/^[A-Za-z0-9_-]+$/.test(driveFolderId)) {
+    throw new ProjectValidationError("driveFolderId is not a Drive folder ID");
+  }
+
+  const specProfile = optionalString(input.specProfile, "specProfile");
+  if (specProfile && !SPEC_PROFILES[specProfile]) {
+    throw new ProjectValidationError(
+      `Unknown spec profile: ${specProfile}. Use one of: ${Object.keys(
+        SPEC_PROFILES
+      ).join(", ")}`
+    );
+  }
+
+  const branding = (input.branding ?? {}) as Record<string, unknown>;
+  const triggerStatuses = input.triggerStatuses;
+  if (
+    triggerStatuses !== undefined &&
+    (!Array.isArray(triggerStatuses) ||
+      triggerStatuses.some((status) => typeof status !== "string"))
+  ) {
+    throw new ProjectValidationError(
+      "triggerStatuses must be a list of strings"
+    );
+  }
+
+  return {
+    id,
+    name: optionalString(input.name, "name") || id,
+    sheetIds: Array.from(new Set(input.sheetIds as string[])),
+    driveFolderId,
+    appsScriptUrl: optionalUrl(input.appsScriptUrl, "appsScriptUrl"),
+    specProfile,
+    branding: {
+      logoUrl: optionalUrl(branding.logoUrl, "branding.logoUrl"),
+      reportTitle: optionalString(branding.reportTitle, "branding.reportTitle"),
+    },
+    triggerStatuses: (triggerStatuses as string[] | undefined)?.filter(Boolean),
+  };
+}
+
+class ProjectRegistry {
+  private filePath = dataPath("projects.json");
+  private projects: Project[] = [];
+  private loadedMtimeMs = -1;
+
+  // The worker process reads the same file, so pick up changes made
+  // through the API in another process
+  private refresh() {
+    const mtimeMs =
+      fs.statSync(this.filePath, { throwIfNoEntry: false })?.mtimeMs ?? 0;
+    if (mtimeMs !== this.loadedMtimeMs) {
+      this.projects = readJSONFile(this.filePath, []);
+      this.loadedMtimeMs = mtimeMs;
+    }
+  }
+
+  private save() {
+    try {
+      writeJSONFile(this.filePath, this.projects);
+    } catch (error) {
+      console.error("❌ Failed to save projects:", error);
+    }
+  }
+
+  listProjects(): Project[] {
+    this.refresh();
+    return this.projects;
+  }
+
+  getProject(id: string): Project | undefined {
+    return this.listProjects().find((project) => project.id === id);
+  }
+
+  findBySheetId(sheetId: string | undefined): Project | undefined {
+    if (!sheetId) return undefined;
+    return this.listProjects().find((project) =>
+      project.sheetIds.includes(sheetId)
+    );
+  }
+
+  // Create the project, or replace it if the id already exists
+  saveProject(raw: unknown): Project {
+    const input = validateProject(raw);
+    const existing = this.getProject(input.id);
+
+    for (const sheetId of input.sheetIds) {
+      const owner = this.findBySheetId(sheetId);
+      if (owner && owner.id !== input.id) {
+        throw new ProjectValidationError(
+          `Sheet ${sheetId} already belongs to project ${owner.id}`
+        );
+      }
+    }
+
+    const now = new Date().toISOString();
+    const project: Project = {
+      ...input,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    this.projects = [
+      ...this.projects.filter((other) => other.id !== project.id),
+      project,
+    ];
+    this.save();
+    console.log(
+      `🏢 Project ${existing ? "updated" : "added"}: ${project.name} (${
+        project.sheetIds.length
+      } sheets)`
+    );
+    return project;
+  }
+
+  removeProject(id: string): boolean {
+    if (!this.getProject(id)) return false;
+
+    this.projects = this.projects.filter((project) => project.id !== id);
+    this.save();
+    return true;
+  }
+}
+
+export const projectRegistry = new ProjectRegistry();
+
+// Whether a sheet status change should start a QA run for this project
+export function isTriggerStatus(
+  project: Project | undefined,
+  status: string
+): boolean {
+  if (project?.triggerStatuses?.length) {
+    return project.triggerStatuses.some(
+      (trigger) => trigger.toLowerCase() === status.toLowerCase()
+    );
+  }
+
+  // "Deliver", "Delivered by Artist", "Re-delivered"... but not
+  // "Undelivered", "Non-deliverable" or "Not delivered"
+  return (
+    /deliver/i.test(status) && !/\b(?:un|non-?|not\s+)deliver/i.test(status)
+  );
+}
+
+export function reportBranding(project: Project | undefined) {
+  return {
+    logoUrl: project?.branding?.logoUrl || DEFAULT_LOGO_URL,
+    reportTitle: project?.branding?.reportTitle || DEFAULT_REPORT_TITLE,
+  };
+}
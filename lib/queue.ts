@@ -1,25 +1,118 @@
 // lib/queue.ts
 
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { EventEmitter } from "events";
+import { JobStore, createJobStore, isClaimable } from "./jobStore";
+import { Semaphore } from "./concurrency";
+import { RevisionComparison, compareRevisions } from "./revisions";
+import { webhookManager } from "./webhooks";
+import {
+  cacheHits,
+  jobRetries,
+  jobsFinished,
+  qaResults,
+  stageDuration,
+} from "./metrics";
+import { hashGLB, hashReferences } from "./contentHash";
+import { LocalArtifact, inlineArtifact, removeArtifacts } from "./artifacts";
+import { projectRegistry } from "./projects";
+import { dataPath, readJSONFile, writeJSONFile } from "./dataStore";
+import type { ReferenceCheck } from "./referenceValidator";
+import {
+  QAJobOptions,
+  renderOptionsKey,
+  resolveJobOptions,
+} from "./jobOptions";
+import {
+  LogEntry,
+  LogLevel,
+  createLogEntry,
+  normalizeLogEntry,
+} from "./logger";
+import {
+  CancelledError,
+  InterruptedError,
+  InternalError,
+  PipelineError,
+  PipelineErrorKind,
+  TimeoutError,
+  classifyError,
+  computeBackoff,
+} from "./errors";
+
 export interface QAJobInput {
   articleId: string;
   productName: string;
   references: string[];
   sheetId?: string;
   rowIndex?: number;
+  batchId?: string;
+  projectId?: string; // Defaults to the project that owns sheetId
+  force?: boolean; // Run the full pipeline even if the GLB is unchanged
+  priority?: JobPriority; // Defaults to "normal"
+  scheduleId?: string; // Set when enqueued by a scheduled re-QA
+  options?: QAJobOptions; // Angles, resolution, spec profile, skipped stages
+  // Run every stage but keep artifacts local, leave the sheet alone and send
+  // no notifications
+  dryRun?: boolean;
+  referenceCheck?: ReferenceCheck; // Set by preflightReferences
+}
+
+// Workers take the highest priority due job first, oldest first within a
+// priority. Background jobs only run when nothing else is waiting.
+export type JobPriority = "urgent" | "normal" | "background";
+
+export const JOB_PRIORITIES: JobPriority[] = ["urgent", "normal", "background"];
+
+// Named pipeline stages, in the order they run
+export type QAStage =
+  | "download"
+  | "upload"
+  | "screenshots"
+  | "analysis"
+  | "pdf"
+  | "sheet";
+
+export const QA_STAGES: QAStage[] = [
+  "download",
+  "upload",
+  "screenshots",
+  "analysis",
+  "pdf",
+  "sheet",
+];
+
+export interface StageCheckpoint {
+  status: "running" | "completed" | "failed" | "skipped";
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+  reusedFrom?: string; // Job whose output was reused instead of running
 }
 
 export interface QAJob {
   id: string;
   articleId: string;
+  revision?: number; // 1 for the first QA run of an article, 2 for the next...
   productName: string;
   references: string[];
-  status: "pending" | "processing" | "completed" | "failed";
+  status:
+    | "pending"
+    | "processing"
+    | "completed"
+    | "failed"
+    | "cancelled"
+    | "needs_references"; // Never queued, the reference images are unusable
   createdAt: string;
   startedAt?: string;
   completedAt?: string;
   retries: number;
   maxRetries: number;
   error?: string;
+  errorType?: PipelineErrorKind;
+  nextAttemptAt?: string;
   screenshots?: string[];
   modelStats?: {
     meshCount: number;
@@ -48,17 +141,571 @@ export interface QAJob {
     };
   };
   pdfUrl?: string;
+  glbSize?: number; // Output of the download stage
+  glbUrl?: string; // Output of the upload stage
+  glbHash?: string; // SHA-256 of the downloaded GLB
+  referencesHash?: string; // SHA-256 of the reference URLs
+  referenceCheck?: ReferenceCheck; // Format and size of each reference image
+  force?: boolean;
+  priority?: JobPriority;
+  scheduleId?: string;
+  options?: QAJobOptions;
+  dryRun?: boolean;
+  artifacts?: LocalArtifact[]; // Files a dry run kept locally
+  // Set when an earlier run of the same GLB and references was reused
+  cacheHit?: { jobId: string; revision?: number; reusedAt: string };
+  stages?: Partial<Record<QAStage, StageCheckpoint>>;
   sheetId?: string;
   rowIndex?: number;
-  processingLogs: string[];
+  batchId?: string; // Set when the job was submitted as part of a batch
+  projectId?: string; // Client project, picks Drive folder, branding, spec
+  leaseOwner?: string; // Worker process currently running the job
+  leaseExpiresAt?: string; // Other workers may take the job over after this
+  processingLogs: LogEntry[];
+}
+
+// Pipeline stages that hold an expensive resource and get their own limit
+export type ThrottledStage = Extract<
+  QAStage,
+  "screenshots" | "analysis" | "pdf"
+>;
+
+export interface WorkerStatus {
+  id: number;
+  busy: boolean;
+  jobId?: string;
+  articleId?: string;
+  stage?: QAStage | "waiting";
+  startedAt?: string;
+}
+
+// Thrown by addJob when the queue is at capacity
+export class QueueFullError extends Error {
+  constructor(pending: number) {
+    super(`Queue is full (${pending} pending jobs), try again later`);
+    this.name = "QueueFullError";
+  }
+
+  // Matched by name: the shared queue may have been created by another
+  // copy of this module, which throws its own copy of the class
+  static [Symbol.hasInstance](value: unknown): boolean {
+    return value instanceof Error && value.name === "QueueFullError";
+  }
+}
+
+export type QueueEventType =
+  | "job.created"
+  | "job.updated"
+  | "job.stage_started"
+  | "job.stage_finished"
+  | "job.log"
+  | "job.completed"
+  | "job.failed";
+
+// Lifecycle event emitted by the queue (streamed to the monitor over SSE)
+export interface QueueEvent {
+  type: QueueEventType;
+  jobId: string;
+  articleId: string;
+  timestamp: string;
+  stage?: QAStage;
+  message?: string;
+  entry?: LogEntry; // The structured log entry, on log lines
+  job?: QAJob; // Snapshot of the job, on everything except log lines
+}
+
+// How long a job may spend in each stage, and in total, before the
+// watchdog aborts it (overridable per stage, e.g. QA_TIMEOUT_SCREENSHOTS_MS)
+const STAGE_TIMEOUTS_MS: Record<QAStage, number> = {
+  download: 2 * 60 * 1000,
+  upload: 2 * 60 * 1000,
+  screenshots: 10 * 60 * 1000,
+  analysis: 5 * 60 * 1000,
+  pdf: 5 * 60 * 1000,
+  sheet: 60 * 1000,
+};
+for (const stage of QA_STAGES) {
+  const override = Number(process.env[`QA_TIMEOUT_${stage.toUpperCase()}_MS`]);
+  if (override > 0) STAGE_TIMEOUTS_MS[stage] = override;
+}
+const JOB_TIMEOUT_MS = Number(process.env.QA_JOB_TIMEOUT_MS) || 20 * 60 * 1000;
+const WATCHDOG_INTERVAL_MS =
+  Number(process.env.QA_WATCHDOG_INTERVAL_MS) || 15 * 1000;
+
+// Settle with the work, or reject as soon as the signal aborts. Work that
+// ignores the signal keeps running detached, but the stage stops waiting
+// for it.
+function untilAborted<T>(work: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) return onAbort();
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    work
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+// running: workers pick up jobs; paused: in-flight jobs finish but no new
+// ones start; draining: paused until idle, then the process exits
+export type QueueState = "running" | "paused" | "draining";
+
+// Running/paused is shared through the data dir, so pausing through the
+// server also pauses the external workers. Draining is per process.
+interface StoredQueueState {
+  state: Exclude<QueueState, "draining">;
+  changedAt: string;
+  reason?: string;
+}
+
+const SHUTDOWN_GRACE_MS = Number(process.env.QA_SHUTDOWN_GRACE_MS) || 25000;
+
+// Dry runs and jobs held for new references are not part of an article's
+// revision history: they get no revision number and are never compared
+function countsAsRevision(job: QAJob): boolean {
+  return job.revision !== undefined && !job.dryRun;
+}
+
+// Where jobs run (QA_WORKER_MODE):
+// embedded: inside this Next.js server (the default)
+// external: this server only enqueues and reads; `npm run worker` runs jobs
+// worker: the standalone worker process
+// Processes share the file job store and each job is leased to one worker
+// at a time, so several workers can run side by side.
+export type WorkerMode = "embedded" | "external" | "worker";
+
+const WORKER_MODE: WorkerMode =
+  process.env.QA_WORKER_MODE === "external" ||
+  process.env.QA_WORKER_MODE === "worker"
+    ? process.env.QA_WORKER_MODE
+    : "embedded";
+const WORKER_ID = process.env.QA_WORKER_ID || `${os.hostname()}-${process.pid}`;
+const LEASE_MS = Number(process.env.QA_LEASE_MS) || 60 * 1000;
+const STORE_SYNC_INTERVAL_MS =
+  Number(process.env.QA_STORE_SYNC_INTERVAL_MS) || 2000;
+
+// Abort reason when another process cancelled the job or took it over
+class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease on job ${jobId} was lost`);
+    this.name = "LeaseLostError";
+  }
+}
+
+// Thrown when a cancel/requeue is not valid for the job's current status
+export class JobStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobStateError";
+  }
+
+  static [Symbol.hasInstance](value: unknown): boolean {
+    return value instanceof Error && value.name === "JobStateError";
+  }
 }
 
 class JobQueue {
   private jobs: Map<string, QAJob> = new Map();
   private queue: string[] = []; // Array of job IDs in order
   private isProcessing = false;
-  private maxConcurrentJobs = 1; // Process one at a time initially
-  private readonly MAX_JOBS = 100;
+  private maxConcurrentJobs = Number(process.env.QA_MAX_CONCURRENT_JOBS) || 2;
+  private readonly MAX_JOBS = Number(process.env.QA_MAX_STORED_JOBS) || 500;
+  private readonly MAX_PENDING_JOBS =
+    Number(process.env.QA_MAX_PENDING_JOBS) || 200;
+  private store: JobStore;
+  private workers: WorkerStatus[];
+  private runningWorkers = 0;
+  private abortControllers: Map<string, AbortController> = new Map();
+  private events = new EventEmitter();
+  private state: QueueState = "running";
+  private stateChangedAt = new Date().toISOString();
+  private stateReason?: string;
+  private stateFile = dataPath("queue-state.json");
+  private stateMtimeMs = -1;
+
+  // Per-stage limits, e.g. 2 Chromium instances but 4 OpenAI calls at once
+  private stageLimits: Record<ThrottledStage, Semaphore> = {
+    screenshots: new Semaphore(Number(process.env.QA_BROWSER_CONCURRENCY) || 2),
+    analysis: new Semaphore(Number(process.env.QA_AI_CONCURRENCY) || 4),
+    pdf: new Semaphore(Number(process.env.QA_PDF_CONCURRENCY) || 2),
+  };
+
+  constructor(store: JobStore = createJobStore()) {
+    this.store = store;
+    this.workers = Array.from({ length: this.maxConcurrentJobs }, (_, i) => ({
+      id: i + 1,
+      busy: false,
+    }));
+    this.refreshState();
+    this.restoreJobs();
+
+    if (process.env.NEXT_PHASE !== "phase-production-build") {
+      setInterval(() => this.checkStuckJobs(), WATCHDOG_INTERVAL_MS).unref();
+      setInterval(() => this.renewLeases(), LEASE_MS / 3).unref();
+
+      if (WORKER_MODE !== "embedded") {
+        const sync = setInterval(
+          () => this.syncFromStore(),
+          STORE_SYNC_INTERVAL_MS
+        );
+        // The standalone worker has nothing else keeping it alive
+        if (WORKER_MODE !== "worker") sync.unref();
+      }
+
+      // Next.js exits on these itself unless NEXT_MANUAL_SIG_HANDLE is set,
+      // which the start script does so in-flight jobs get to checkpoint
+      process.once("SIGTERM", () => this.handleSignal("SIGTERM"));
+      process.once("SIGINT", () => this.handleSignal("SIGINT"));
+    }
+  }
+
+  // Watchdog: abort jobs that have been in one stage, or processing overall,
+  // for longer than allowed. Aborting closes their browser; the job then goes
+  // through the normal retry path as a timeout.
+  private checkStuckJobs() {
+    const now = Date.now();
+
+    for (const [jobId, controller] of this.abortControllers) {
+      const job = this.jobs.get(jobId);
+      if (!job || job.status !== "processing" || controller.signal.aborted) {
+        continue;
+      }
+
+      let reason: string | undefined;
+
+      const runningStage = QA_STAGES.find(
+        (stage) => job.stages?.[stage]?.status === "running"
+      );
+      const stageStartedAt = runningStage
+        ? job.stages?.[runningStage]?.startedAt
+        : undefined;
+
+      if (
+        runningStage &&
+        stageStartedAt &&
+        now - new Date(stageStartedAt).getTime() >
+          STAGE_TIMEOUTS_MS[runningStage]
+      ) {
+        reason = `Stage ${runningStage} exceeded ${
+          STAGE_TIMEOUTS_MS[runningStage] / 1000
+        }s`;
+      } else if (
+        job.startedAt &&
+        now - new Date(job.startedAt).getTime() > JOB_TIMEOUT_MS
+      ) {
+        reason = `Job exceeded ${JOB_TIMEOUT_MS / 1000}s overall`;
+      }
+
+      if (reason) {
+        console.log(`⏰ Watchdog aborting job ${jobId}: ${reason}`);
+        this.log(job, "warn", `Watchdog: ${reason}, aborting`);
+        controller.abort(new TimeoutError(reason));
+      }
+    }
+  }
+
+  // Load persisted jobs and requeue anything that was interrupted
+  private restoreJobs() {
+    let storedJobs: QAJob[];
+    try {
+      storedJobs = this.store.loadAll();
+    } catch (error) {
+      console.error("❌ Failed to load persisted jobs:", error);
+      return;
+    }
+
+    storedJobs.sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+
+    let recovered = 0;
+    let leasedUntil = 0;
+    for (const job of storedJobs) {
+      // Jobs stored before revisions existed get numbered by creation order
+      if (
+        job.revision === undefined &&
+        !job.dryRun &&
+        job.status !== "needs_references"
+      ) {
+        job.revision = this.nextRevision(job.articleId);
+        this.persist(job);
+      }
+      this.hydrate(job);
+      this.jobs.set(job.id, job);
+
+      // A live lease means another process is running the job right now.
+      // Leave it alone; if the owner died, the job is picked up once the
+      // lease runs out.
+      const leaseExpiresAt = job.leaseExpiresAt
+        ? new Date(job.leaseExpiresAt).getTime()
+        : 0;
+      if (job.leaseOwner && leaseExpiresAt > Date.now()) {
+        leasedUntil = Math.max(leasedUntil, leaseExpiresAt);
+        continue;
+      }
+
+      // Workers sharing the store recover each other's jobs through expired
+      // leases; only a server that runs jobs itself knows they are orphaned
+      if (WORKER_MODE === "embedded" && job.leaseOwner) {
+        job.leaseOwner = undefined;
+        job.leaseExpiresAt = undefined;
+        this.persist(job);
+      }
+
+      if (job.status === "processing" && WORKER_MODE === "embedded") {
+        // The process died while this job was running - start it over
+        job.status = "pending";
+        job.startedAt = undefined;
+        this.log(
+          job,
+          "warn",
+          `Recovered after restart at ${new Date().toISOString()}, requeued`
+        );
+        this.persist(job);
+        recovered++;
+      }
+
+      if (isClaimable(job)) {
+        this.queue.push(job.id);
+        if (job.nextAttemptAt) {
+          this.scheduleWakeUp(
+            new Date(job.nextAttemptAt).getTime() - Date.now()
+          );
+        }
+      }
+    }
+
+    if (storedJobs.length > 0) {
+      console.log(
+        `💾 Restored ${storedJobs.length} jobs (${this.queue.length} pending, ${recovered} recovered from processing)`
+      );
+    }
+
+    // Only the other modes sync with the store on an interval
+    if (WORKER_MODE === "embedded" && leasedUntil > 0) {
+      setTimeout(
+        () => this.syncFromStore(),
+        leasedUntil - Date.now() + 1000
+      ).unref();
+    }
+
+    // Don't start Chromium while Next.js is building the app
+    if (
+      this.hasReadyJob() &&
+      process.env.NEXT_PHASE !== "phase-production-build"
+    ) {
+      setTimeout(() => this.startProcessing(), 0);
+    }
+  }
+
+  // Defaults for fields that older stored jobs don't have
+  private hydrate(job: QAJob): QAJob {
+    job.priority = job.priority ?? "normal";
+    job.processingLogs = job.processingLogs.map((entry) =>
+      normalizeLogEntry(entry, job.createdAt)
+    );
+    return job;
+  }
+
+  // Pick up jobs that other processes created or changed in the shared
+  // store, and replay those changes to local subscribers
+  private syncFromStore() {
+    let storedJobs: QAJob[];
+    try {
+      storedJobs = this.store.loadAll();
+    } catch (error) {
+      console.error("❌ Failed to sync jobs from store:", error);
+      return;
+    }
+
+    const storedIds = new Set<string>();
+    for (const stored of storedJobs) {
+      storedIds.add(stored.id);
+
+      // Jobs running in this process are ahead of their stored copy
+      if (this.abortControllers.has(stored.id)) continue;
+
+      this.hydrate(stored);
+      const current = this.jobs.get(stored.id);
+      const changed =
+        !current || JSON.stringify(current) !== JSON.stringify(stored);
+      if (changed) this.jobs.set(stored.id, stored);
+
+      // Checked even when unchanged, since leases expire on their own
+      const queued = this.queue.includes(stored.id);
+      if (isClaimable(stored) && !queued) {
+        this.queue.push(stored.id);
+        if (stored.nextAttemptAt) {
+          this.scheduleWakeUp(
+            new Date(stored.nextAttemptAt).getTime() - Date.now()
+          );
+        }
+      } else if (!isClaimable(stored) && queued) {
+        this.queue = this.queue.filter((id) => id !== stored.id);
+      }
+
+      if (!changed) continue;
+
+      const newEntries = stored.processingLogs.slice(
+        current?.processingLogs.length ?? 0
+      );
+      for (const entry of newEntries) {
+        this.emit("job.log", stored, {
+          stage: entry.stage,
+          message: entry.message,
+          entry,
+        });
+      }
+
+      const finished = current?.status !== stored.status;
+      this.emit(
+        !current
+          ? "job.created"
+          : finished && stored.status === "completed"
+          ? "job.completed"
+          : finished && stored.status === "failed"
+          ? "job.failed"
+          : "job.updated",
+        stored
+      );
+
+      // Workers leave webhooks to the server, which owns the subscriptions
+      // and the delivery log
+      if (
+        WORKER_MODE === "external" &&
+        current &&
+        finished &&
+        (stored.status === "completed" || stored.status === "failed")
+      ) {
+        webhookManager.dispatch(stored);
+      }
+    }
+
+    // Removed by another process's cleanup
+    for (const jobId of this.jobs.keys()) {
+      if (!storedIds.has(jobId) && !this.abortControllers.has(jobId)) {
+        this.jobs.delete(jobId);
+        this.queue = this.queue.filter((id) => id !== jobId);
+      }
+    }
+
+    this.startProcessing();
+  }
+
+  // Listen to job lifecycle events. Returns an unsubscribe function.
+  subscribe(listener: (event: QueueEvent) => void): () => void {
+    this.events.on("event", listener);
+    return () => {
+      this.events.off("event", listener);
+    };
+  }
+
+  private emit(
+    type: QueueEventType,
+    job: QAJob,
+    extra: Pick<QueueEvent, "stage" | "message" | "entry"> = {}
+  ) {
+    const event: QueueEvent = {
+      type,
+      jobId: job.id,
+      articleId: job.articleId,
+      timestamp: new Date().toISOString(),
+      ...extra,
+      ...(type === "job.log" ? {} : { job: structuredClone(job) }),
+    };
+
+    try {
+      this.events.emit("event", event);
+    } catch (error) {
+      console.error("❌ Queue event listener failed:", error);
+    }
+  }
+
+  // Append an entry to the job's processing log. Entries are attributed to
+  // the stage that is currently running unless one is given.
+  private log(
+    job: QAJob,
+    level: LogLevel,
+    message: string,
+    extra: { stage?: QAStage; data?: Record<string, unknown> } = {}
+  ) {
+    const stage =
+      extra.stage ??
+      QA_STAGES.find((name) => job.stages?.[name]?.status === "running");
+    this.appendLog(job, createLogEntry(level, message, stage, extra.data));
+  }
+
+  private appendLog(job: QAJob, entry: LogEntry) {
+    job.processingLogs.push(entry);
+    this.emit("job.log", job, {
+      stage: entry.stage,
+      message: entry.message,
+      entry,
+    });
+  }
+
+  // Write the current state of a job to the store. Jobs leased by this
+  // process renew their lease while running and release it otherwise.
+  private persist(job: QAJob) {
+    try {
+      if (job.leaseOwner !== WORKER_ID) {
+        this.store.updateUnleased(job.id, () => job);
+        return;
+      }
+
+      if (job.status === "processing") {
+        job.leaseExpiresAt = new Date(Date.now() + LEASE_MS).toISOString();
+      } else {
+        job.leaseOwner = undefined;
+        job.leaseExpiresAt = undefined;
+      }
+
+      if (!this.store.saveLeased(job, WORKER_ID)) {
+        this.handleLeaseLost(job);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to persist job ${job.id}:`, error);
+    }
+  }
+
+  // Change a job and save it. Jobs leased by another process (or by none)
+  // are changed on their stored copy under the store's lock, so the change
+  // is neither lost to nor overwrites a worker saving its progress.
+  private updateJob(job: QAJob, change: (job: QAJob) => void): QAJob {
+    if (job.leaseOwner === WORKER_ID) {
+      change(job);
+      this.persist(job);
+      return job;
+    }
+
+    const updated = this.store.updateUnleased(job.id, (stored) => {
+      const target = stored ? this.hydrate(stored) : job;
+      change(target);
+      return target;
+    });
+    this.jobs.set(updated.id, updated);
+    return updated;
+  }
+
+  // Save the jobs running here so their leases don't expire mid-stage
+  private renewLeases() {
+    for (const jobId of this.abortControllers.keys()) {
+      const job = this.jobs.get(jobId);
+      if (job) this.persist(job);
+    }
+  }
+
+  // The job was cancelled through another process, or this process stalled
+  // long enough for another worker to take it over: stop working on it
+  private handleLeaseLost(job: QAJob) {
+    const controller = this.abortControllers.get(job.id);
+    if (!controller || controller.signal.aborted) return;
+
+    console.log(`⚠️ Lost the lease on job ${job.id}, abandoning it`);
+    controller.abort(new LeaseLostError(job.id));
+  }
 
   // Add a new job to the queue
   addJob(jobData: QAJobInput): QAJob {
@@ -67,17 +714,48 @@ class JobQueue {
       .substr(2, 6)}`;
 
     // Check if job for this articleId already exists and is pending/processing
-    const existingJob = this.findJobByArticleId(jobData.articleId);
-    if (
-      existingJob &&
-      (existingJob.status === "pending" || existingJob.status === "processing")
-    ) {
+    const existingJob = this.findActiveJob(
+      jobData.articleId,
+      jobData.dryRun === true
+    );
+    if (existingJob) {
       console.log(
         `⚠️ Job for Article ID ${jobData.articleId} already exists with status: ${existingJob.status}`
       );
-      return existingJob;
+
+      // An urgent re-delivery shouldn't wait behind its own queued job
+      if (
+        existingJob.status === "pending" &&
+        jobData.priority &&
+        JOB_PRIORITIES.indexOf(jobData.priority) <
+          JOB_PRIORITIES.indexOf(existingJob.priority ?? "normal")
+      ) {
+        try {
+          return this.setJobPriority(existingJob.id, jobData.priority)!;
+        } catch (error) {
+          // A worker picked it up in the meantime
+          if (!(error instanceof JobStateError)) throw error;
+        }
+      }
+      return this.jobs.get(existingJob.id) ?? existingJob;
     }
 
+    const needsReferences = jobData.referenceCheck?.ok === false;
+
+    // Back-pressure: refuse new work instead of growing the queue forever
+    if (!needsReferences && this.queue.length >= this.MAX_PENDING_JOBS) {
+      throw new QueueFullError(this.queue.length);
+    }
+
+    const project = jobData.projectId
+      ? projectRegistry.getProject(jobData.projectId)
+      : projectRegistry.findBySheetId(jobData.sheetId);
+    // The project's spec profile applies unless the job asks for another one
+    const options =
+      project?.specProfile && !jobData.options?.specProfile
+        ? { ...jobData.options, specProfile: project.specProfile }
+        : jobData.options;
+
     const job: QAJob = {
       id: jobId,
       articleId: jobData.articleId,
@@ -89,11 +767,45 @@ class JobQueue {
       maxRetries: 3,
       sheetId: jobData.sheetId,
       rowIndex: jobData.rowIndex,
-      processingLogs: [`Job created for Article ID: ${jobData.articleId}`],
+      batchId: jobData.batchId,
+      projectId: project?.id,
+      force: jobData.force,
+      priority: jobData.priority ?? "normal",
+      scheduleId: jobData.scheduleId,
+      options,
+      dryRun: jobData.dryRun,
+      referenceCheck: jobData.referenceCheck,
+      revision:
+        jobData.dryRun || needsReferences
+          ? undefined
+          : this.nextRevision(jobData.articleId),
+      processingLogs: [
+        createLogEntry(
+          "info",
+          `Job created for Article ID: ${jobData.articleId}`
+        ),
+      ],
     };
+    if (job.revision !== undefined) {
+      this.log(job, "info", `Revision ${job.revision} of this article`);
+    }
+    if (job.dryRun) {
+      this.log(
+        job,
+        "info",
+        "Dry run: artifacts stay local, no sheet update or notifications"
+      );
+    }
+
+    if (needsReferences) {
+      return this.holdForReferences(job);
+    }
 
     this.jobs.set(jobId, job);
     this.queue.push(jobId);
+    this.persist(job);
+
+    this.emit("job.created", job);
 
     // Clean up old jobs if we exceed max
     this.cleanupOldJobs();
@@ -109,14 +821,111 @@ class JobQueue {
     return job;
   }
 
-  // Find job by Article ID
+  // Keep a job whose references failed the pre-flight check out of the
+  // queue and tell the sheet why. New references in the sheet trigger a
+  // fresh run; requeueing the job runs it anyway.
+  private holdForReferences(job: QAJob): QAJob {
+    job.status = "needs_references";
+    job.completedAt = new Date().toISOString();
+    job.error = `Needs references: ${job.referenceCheck?.reason}`;
+    this.log(job, "warn", job.error, {
+      data: { references: job.referenceCheck?.images },
+    });
+
+    this.jobs.set(job.id, job);
+    this.persist(job);
+    this.emit("job.created", job);
+    jobsFinished.inc({ status: "needs_references" });
+    this.cleanupOldJobs();
+    console.log(`🖼️ Job ${job.id} needs references: ${job.error}`);
+
+    if (
+      job.sheetId &&
+      job.rowIndex &&
+      !job.dryRun &&
+      !job.options?.skipSheetUpdate
+    ) {
+      this.updateGoogleSheet(job).catch((error) => {
+        this.log(
+          job,
+          "warn",
+          `Could not write the reference problem back to the sheet: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+        this.persist(job);
+      });
+    }
+
+    return job;
+  }
+
+  // Find the latest job (revision) for an Article ID
   findJobByArticleId(articleId: string): QAJob | undefined {
+    const revisions = this.getArticleRevisions(articleId);
+    return revisions[revisions.length - 1];
+  }
+
+  // The article's pending/processing job, of any revision. A dry run must
+  // never stand in for a real QA run, or the other way round.
+  findActiveJob(articleId: string, dryRun = false): QAJob | undefined {
+    return this.getArticleRevisions(articleId)
+      .reverse()
+      .find(
+        (job) =>
+          (job.status === "pending" || job.status === "processing") &&
+          !!job.dryRun === dryRun
+      );
+  }
+
+  // Every job of an article (dry runs and held jobs included), oldest
+  // revision first
+  getArticleRevisions(articleId: string): QAJob[] {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.articleId === articleId)
+      .sort(
+        (a, b) =>
+          (a.revision ?? 0) - (b.revision ?? 0) ||
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+  }
+
+  // The article's numbered QA runs, oldest first
+  getRevisionHistory(articleId: string): QAJob[] {
+    return this.getArticleRevisions(articleId).filter(countsAsRevision);
+  }
+
+  // Compare two revisions of an article. Defaults to the latest revision
+  // against the one before it.
+  compareArticleRevisions(
+    articleId: string,
+    fromRevision?: number,
+    toRevision?: number
+  ): RevisionComparison | undefined {
+    const revisions = this.getRevisionHistory(articleId);
+    const to =
+      toRevision !== undefined
+        ? revisions.find((job) => job.revision === toRevision)
+        : revisions[revisions.length - 1];
+    if (!to) return undefined;
+
+    const from =
+      fromRevision !== undefined
+        ? revisions.find((job) => job.revision === fromRevision)
+        : revisions.filter((job) => job.revision! < to.revision!).pop();
+    if (!from) return undefined;
+
+    return compareRevisions(from, to);
+  }
+
+  private nextRevision(articleId: string): number {
+    let latest = 0;
     for (const job of this.jobs.values()) {
       if (job.articleId === articleId) {
-        return job;
+        latest = Math.max(latest, job.revision ?? 0);
       }
     }
-    return undefined;
+    return latest + 1;
   }
 
   // Get job by ID
@@ -132,8 +941,99 @@ class JobQueue {
     );
   }
 
+  // Cancel a pending or in-flight job
+  cancelJob(
+    jobId: string,
+    reason = "Cancelled by operator"
+  ): QAJob | undefined {
+    const job = this.jobs.get(jobId);
+    if (!job) return undefined;
+
+    if (job.status !== "pending" && job.status !== "processing") {
+      throw new JobStateError(
+        `Job ${jobId} cannot be cancelled from status: ${job.status}`
+      );
+    }
+
+    // A worker may have moved the job on since this copy was loaded
+    const cancelled = this.updateJob(job, (stored) => {
+      if (stored.status !== "pending" && stored.status !== "processing") {
+        throw new JobStateError(
+          `Job ${jobId} cannot be cancelled from status: ${stored.status}`
+        );
+      }
+
+      stored.status = "cancelled";
+      stored.completedAt = new Date().toISOString();
+      stored.nextAttemptAt = undefined;
+      this.log(stored, "warn", `Cancelled at ${stored.completedAt}: ${reason}`);
+    });
+    this.queue = this.queue.filter((id) => id !== jobId);
+
+    // Aborting closes the job's browser and any outstanding OpenAI request
+    this.abortControllers.get(jobId)?.abort(new CancelledError(reason));
+    this.removeStageFiles(cancelled);
+
+    this.emit("job.updated", cancelled);
+    jobsFinished.inc({ status: "cancelled" });
+    console.log(`🛑 Job ${jobId} cancelled (${reason})`);
+    return cancelled;
+  }
+
+  // Put a finished, failed or cancelled job back on the queue. Failed and
+  // cancelled jobs resume from their first incomplete stage unless fromStage
+  // is given; completed jobs are re-run from the start.
+  requeueJob(
+    jobId: string,
+    reason = "Requeued by operator",
+    fromStage?: QAStage
+  ): QAJob | undefined {
+    const job = this.jobs.get(jobId);
+    if (!job) return undefined;
+
+    if (job.status === "pending" || job.status === "processing") {
+      throw new JobStateError(
+        `Job ${jobId} is already ${job.status} and cannot be requeued`
+      );
+    }
+
+    if (fromStage) {
+      this.resetStages(job, fromStage);
+      reason = `${reason} (from stage: ${fromStage})`;
+    } else if (job.status === "completed") {
+      // Re-running a finished job means the operator wants fresh results,
+      // not the cached ones from an identical earlier run
+      this.resetStages(job, QA_STAGES[0]);
+      job.force = true;
+    }
+
+    // A job held for references joins the article's history once it runs
+    if (job.revision === undefined && !job.dryRun) {
+      job.revision = this.nextRevision(job.articleId);
+      this.log(job, "info", `Revision ${job.revision} of this article`);
+    }
+
+    job.status = "pending";
+    job.retries = 0;
+    job.error = undefined;
+    job.errorType = undefined;
+    job.nextAttemptAt = undefined;
+    job.startedAt = undefined;
+    job.completedAt = undefined;
+    this.log(job, "info", `Requeued at ${new Date().toISOString()}: ${reason}`);
+
+    this.queue.push(job.id);
+    this.persist(job);
+    this.emit("job.updated", job);
+    console.log(`🔁 Job ${jobId} requeued (${reason})`);
+
+    this.startProcessing();
+    return job;
+  }
+
   // Get queue status
   getQueueStatus() {
+    this.refreshState();
     const pending = this.queue.length;
     const processing = Array.from(this.jobs.values()).filter(
       (job) => job.status === "processing"
@@ -144,119 +1044,635 @@ class JobQueue {
     const failed = Array.from(this.jobs.values()).filter(
       (job) => job.status === "failed"
     ).length;
+    const needsReferences = Array.from(this.jobs.values()).filter(
+      (job) => job.status === "needs_references"
+    ).length;
+    const pendingJobs = this.getPendingJobs();
+    const pendingByPriority = Object.fromEntries(
+      JOB_PRIORITIES.map((priority) => [
+        priority,
+        pendingJobs.filter((job) => (job.priority ?? "normal") === priority)
+          .length,
+      ])
+    ) as Record<JobPriority, number>;
 
     return {
+      mode: WORKER_MODE,
+      workerId: WORKER_ID,
+      state: this.state,
+      stateChangedAt: this.stateChangedAt,
+      stateReason: this.stateReason,
       pending,
+      pendingByPriority,
       processing,
       completed,
       failed,
+      needsReferences,
       total: this.jobs.size,
       isProcessing: this.isProcessing,
+      maxConcurrentJobs: this.maxConcurrentJobs,
+      maxPendingJobs: this.MAX_PENDING_JOBS,
+      timeouts: { job: JOB_TIMEOUT_MS, stages: STAGE_TIMEOUTS_MS },
+      workers: this.workers.map((worker) => ({ ...worker })),
+      stages: Object.fromEntries(
+        Object.entries(this.stageLimits).map(([stage, limit]) => [
+          stage,
+          {
+            active: limit.activeCount,
+            waiting: limit.waitingCount,
+            limit: limit.limit,
+          },
+        ])
+      ) as Record<
+        ThrottledStage,
+        { active: number; waiting: number; limit: number }
+      >,
     };
   }
 
-  // Start the processing loop
-  private async startProcessing() {
-    if (this.isProcessing) {
-      return; // Already processing
+  // Stop starting new jobs; jobs already running finish normally
+  pause(reason = "Paused by operator") {
+    this.refreshState();
+    if (this.state === "draining") {
+      throw new JobStateError("Queue is draining for shutdown");
+    }
+    this.setState("paused", reason);
+  }
+
+  resume() {
+    this.refreshState();
+    if (this.state === "draining") {
+      throw new JobStateError("Queue is draining for shutdown");
+    }
+    this.setState("running");
+    this.startProcessing();
+  }
+
+  // Pause, wait for in-flight jobs to finish (or interrupt them once the
+  // grace period runs out), then exit the process
+  async shutdown(reason = "Shutdown requested", graceMs = SHUTDOWN_GRACE_MS) {
+    if (this.state === "draining") return;
+    this.setState("draining", reason);
+
+    const deadline = Date.now() + graceMs;
+    while (this.runningWorkers > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+
+    if (this.runningWorkers > 0) {
+      console.log(
+        `🛑 Grace period over, interrupting ${this.abortControllers.size} in-flight jobs`
+      );
+      for (const controller of this.abortControllers.values()) {
+        controller.abort(new InterruptedError(reason));
+      }
+      // Give the workers a moment to checkpoint the interrupted jobs
+      const interruptDeadline = Date.now() + 5000;
+      while (this.runningWorkers > 0 && Date.now() < interruptDeadline) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+    }
+
+    console.log("✅ Job queue drained, exiting");
+    process.exit(0);
+  }
+
+  private handleSignal(signal: NodeJS.Signals) {
+    console.log(`🛑 ${signal} received, draining job queue...`);
+    this.shutdown(`${signal} received`).catch((error) => {
+      console.error("❌ Error during shutdown:", error);
+      process.exit(1);
+    });
+  }
+
+  private setState(state: QueueState, reason?: string) {
+    this.state = state;
+    this.stateChangedAt = new Date().toISOString();
+    this.stateReason = reason;
+    console.log(`⏯️ Job queue ${state}${reason ? ` (${reason})` : ""}`);
+
+    if (state === "draining") return;
+    try {
+      const stored: StoredQueueState = {
+        state,
+        changedAt: this.stateChangedAt,
+        reason,
+      };
+      writeJSONFile(this.stateFile, stored);
+      this.stateMtimeMs = fs.statSync(this.stateFile).mtimeMs;
+    } catch (error) {
+      console.error("❌ Failed to save queue state:", error);
     }
+  }
+
+  // Pick up a pause or resume made by another process
+  private refreshState() {
+    if (this.state === "draining") return;
+
+    const mtimeMs =
+      fs.statSync(this.stateFile, { throwIfNoEntry: false })?.mtimeMs ?? 0;
+    if (mtimeMs === this.stateMtimeMs) return;
+    this.stateMtimeMs = mtimeMs;
+
+    const stored = readJSONFile<StoredQueueState | undefined>(
+      this.stateFile,
+      undefined
+    );
+    if (!stored || stored.state === this.state) return;
+
+    this.state = stored.state;
+    this.stateChangedAt = stored.changedAt;
+    this.stateReason = stored.reason;
+    console.log(
+      `⏯️ Job queue ${stored.state}${
+        stored.reason ? ` (${stored.reason})` : ""
+      }`
+    );
+  }
+
+  private isRunning(): boolean {
+    this.refreshState();
+    return this.state === "running";
+  }
+
+  // Start idle workers while there is pending work
+  private startProcessing() {
+    if (!this.isRunning() || WORKER_MODE === "external") return;
+
+    for (const worker of this.workers) {
+      if (!this.hasReadyJob()) break;
+      if (worker.busy) continue;
 
-    this.isProcessing = true;
-    console.log("🚀 Starting job queue processor...");
+      worker.busy = true;
+      this.runningWorkers++;
+      if (!this.isProcessing) {
+        this.isProcessing = true;
+        console.log(
+          `🚀 Starting job queue processor with ${this.maxConcurrentJobs} workers...`
+        );
+      }
 
-    while (this.queue.length > 0) {
-      const jobId = this.queue.shift();
-      if (!jobId) continue;
+      this.runWorker(worker).finally(() => {
+        worker.busy = false;
+        this.runningWorkers--;
+        if (this.runningWorkers === 0) {
+          this.isProcessing = false;
+          console.log("✅ Job queue processor finished");
+        } else if (this.hasReadyJob()) {
+          this.startProcessing();
+        }
+      });
+    }
+  }
 
+  // Whether any queued job is due (not waiting out a retry backoff)
+  private hasReadyJob(): boolean {
+    const now = Date.now();
+    return this.queue.some((jobId) => {
       const job = this.jobs.get(jobId);
-      if (!job) continue;
+      return (
+        !job?.nextAttemptAt || new Date(job.nextAttemptAt).getTime() <= now
+      );
+    });
+  }
+
+  // Lease the next job so no other worker process runs it too
+  private takeNextJob(): QAJob | undefined {
+    let job: QAJob | undefined;
+    while ((job = this.pickNextJob())) {
+      let claimed: QAJob | undefined;
+      try {
+        claimed = this.store.claim(job.id, WORKER_ID, LEASE_MS);
+      } catch (error) {
+        console.error(`❌ Failed to claim job ${job.id}:`, error);
+        this.queue.push(job.id);
+        this.scheduleWakeUp(1000);
+        return undefined;
+      }
+
+      // Otherwise another worker got there first, or it was cancelled
+      if (claimed) {
+        this.jobs.set(claimed.id, this.hydrate(claimed));
+        if (job.status === "processing") {
+          this.log(
+            claimed,
+            "warn",
+            `Taken over from ${
+              job.leaseOwner ?? "an unknown worker"
+            } after its lease expired`
+          );
+        }
+        return claimed;
+      }
+    }
+    return undefined;
+  }
+
+  // Remove and return the due job with the highest priority, oldest first
+  private pickNextJob(): QAJob | undefined {
+    const now = Date.now();
+    let bestIndex = -1;
+    let best: QAJob | undefined;
+
+    for (let i = 0; i < this.queue.length; i++) {
+      const job = this.jobs.get(this.queue[i]);
+      if (!job) {
+        this.queue.splice(i--, 1);
+        continue;
+      }
+
+      if (job.nextAttemptAt && new Date(job.nextAttemptAt).getTime() > now) {
+        continue;
+      }
+
+      if (!best || this.compareJobs(job, best) < 0) {
+        best = job;
+        bestIndex = i;
+      }
+    }
+
+    if (best) {
+      this.queue.splice(bestIndex, 1);
+    }
+    return best;
+  }
+
+  // Queue order: priority, then creation time
+  private compareJobs(a: QAJob, b: QAJob): number {
+    return (
+      JOB_PRIORITIES.indexOf(a.priority ?? "normal") -
+        JOB_PRIORITIES.indexOf(b.priority ?? "normal") ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+  }
+
+  // Pending jobs in the order workers will pick them up
+  getPendingJobs(): QAJob[] {
+    return this.queue
+      .map((jobId) => this.jobs.get(jobId))
+      .filter((job): job is QAJob => job !== undefined)
+      .sort((a, b) => this.compareJobs(a, b));
+  }
+
+  // Move a waiting job up or down the queue
+  setJobPriority(jobId: string, priority: JobPriority): QAJob | undefined {
+    const job = this.jobs.get(jobId);
+    if (!job) return undefined;
+
+    if (job.status !== "pending") {
+      throw new JobStateError(
+        `Job ${jobId} is ${job.status}, only pending jobs can be reprioritized`
+      );
+    }
+
+    let previous: JobPriority = "normal";
+    const updated = this.updateJob(job, (stored) => {
+      if (stored.status !== "pending") {
+        throw new JobStateError(
+          `Job ${jobId} is ${stored.status}, only pending jobs can be reprioritized`
+        );
+      }
+
+      previous = stored.priority ?? "normal";
+      stored.priority = priority;
+      this.log(
+        stored,
+        "info",
+        `Priority changed from ${previous} to ${priority}`
+      );
+    });
+    this.emit("job.updated", updated);
+    console.log(`↕️ Job ${jobId} priority: ${previous} → ${priority}`);
+    return updated;
+  }
+
+  // Wake the processor once a backed-off job becomes due
+  private scheduleWakeUp(delayMs: number) {
+    setTimeout(() => this.startProcessing(), Math.max(0, delayMs) + 50);
+  }
+
+  // A single worker pulls jobs until no job is due
+  private async runWorker(worker: WorkerStatus) {
+    let job: QAJob | undefined;
+    // Checked before every claim, so a pause anywhere stops this worker too
+    while (this.isRunning() && (job = this.takeNextJob())) {
+      const jobId = job.id;
+
+      worker.jobId = job.id;
+      worker.articleId = job.articleId;
+      worker.startedAt = new Date().toISOString();
+      worker.stage = undefined;
 
       try {
         await this.processJob(job);
       } catch (error) {
         console.error(`❌ Error processing job ${jobId}:`, error);
-        this.handleJobError(
-          job,
-          error instanceof Error ? error.message : "Unknown error"
-        );
+        this.handleJobError(job, error);
+      } finally {
+        worker.jobId = undefined;
+        worker.articleId = undefined;
+        worker.startedAt = undefined;
+        worker.stage = undefined;
       }
+    }
+  }
+
+  private isStageComplete(job: QAJob, stage: QAStage): boolean {
+    return job.stages?.[stage]?.status === "completed";
+  }
 
-      // Small delay between jobs to prevent overwhelming the system
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+  // Run one pipeline stage and checkpoint it on the job. Completed stages are
+  // skipped, so a retry resumes from the first stage that didn't finish.
+  // An abort ends the stage straight away, even if fn is still running.
+  private async runStage(
+    job: QAJob,
+    stage: QAStage,
+    signal: AbortSignal,
+    fn: () => Promise<void>
+  ): Promise<void> {
+    if (this.isStageComplete(job, stage)) {
+      const reusedFrom = job.stages?.[stage]?.reusedFrom;
+      this.log(
+        job,
+        "info",
+        reusedFrom
+          ? `Reusing ${stage} output from job ${reusedFrom}`
+          : `Reusing ${stage} output from earlier attempt`,
+        { stage }
+      );
+      return;
+    }
+
+    const worker = this.workers.find((w) => w.jobId === job.id);
+    const limit =
+      stage in this.stageLimits
+        ? this.stageLimits[stage as ThrottledStage]
+        : undefined;
+
+    if (limit) {
+      if (worker) worker.stage = "waiting";
+      await limit.acquire();
+      if (signal.aborted) {
+        limit.release();
+        if (worker) worker.stage = undefined;
+        signal.throwIfAborted();
+      }
+    }
+
+    const checkpoint: StageCheckpoint = {
+      status: "running",
+      startedAt: new Date().toISOString(),
+    };
+    job.stages = { ...job.stages, [stage]: checkpoint };
+    if (worker) worker.stage = stage;
+    this.persist(job);
+    this.emit("job.stage_started", job, { stage });
+
+    const work = fn();
+    try {
+      await untilAborted(work, signal);
+      // The stage may have recorded a non-fatal failure itself
+      if (checkpoint.status === "running") {
+        checkpoint.status = "completed";
+      }
+    } catch (error) {
+      checkpoint.status = "failed";
+      checkpoint.error =
+        error instanceof Error ? error.message : "Unknown error";
+      throw error;
+    } finally {
+      checkpoint.completedAt = new Date().toISOString();
+      stageDuration.observe(
+        { stage, outcome: checkpoint.status },
+        (new Date(checkpoint.completedAt).getTime() -
+          new Date(checkpoint.startedAt).getTime()) /
+          1000
+      );
+      // An aborted stage may still be winding down (closing its browser,
+      // say): it keeps its slot until it has, so the limit holds
+      if (limit) {
+        const release = () => limit.release();
+        work.then(release, release);
+      }
+      if (worker) worker.stage = undefined;
+      this.persist(job);
+      this.emit("job.stage_finished", job, { stage });
+    }
+  }
+
+  // Record a stage that did not need to run on this attempt
+  private skipStage(job: QAJob, stage: QAStage, reason: string) {
+    const now = new Date().toISOString();
+    job.stages = {
+      ...job.stages,
+      [stage]: { status: "skipped", startedAt: now, completedAt: now },
+    };
+    this.log(job, "warn", `Skipping ${stage}: ${reason}`, { stage });
+    this.emit("job.stage_finished", job, { stage });
+  }
+
+  // Latest completed run of the article with the same GLB and references
+  private findCachedRun(job: QAJob): QAJob | undefined {
+    return this.getArticleRevisions(job.articleId)
+      .reverse()
+      .find(
+        (other) =>
+          other.id !== job.id &&
+          other.status === "completed" &&
+          !other.dryRun &&
+          other.glbHash === job.glbHash &&
+          other.referencesHash === job.referencesHash &&
+          renderOptionsKey(other.options) === renderOptionsKey(job.options) &&
+          other.aiAnalysis !== undefined
+      );
+  }
+
+  // Copy the outputs of an earlier run and checkpoint those stages as done,
+  // so only the stages it didn't produce (and the sheet update) still run
+  private reuseCachedRun(job: QAJob, source: QAJob) {
+    const now = new Date().toISOString();
+    const options = resolveJobOptions(job.options);
+    const available: Array<[QAStage, boolean]> = [
+      ["upload", !!source.glbUrl],
+      ["screenshots", !!source.screenshots?.length],
+      ["analysis", !!source.aiAnalysis && !options.skipAI],
+      ["pdf", !!source.pdfUrl && !options.skipAI && !options.skipPDF],
+    ];
+
+    job.glbUrl = source.glbUrl;
+    job.screenshots = source.screenshots;
+    job.modelStats = source.modelStats;
+    if (!options.skipAI) {
+      job.aiAnalysis = source.aiAnalysis;
+      if (!options.skipPDF) job.pdfUrl = source.pdfUrl;
+    }
+
+    for (const [stage, produced] of available) {
+      if (!produced) continue;
+      job.stages = {
+        ...job.stages,
+        [stage]: {
+          status: "completed",
+          startedAt: now,
+          completedAt: now,
+          reusedFrom: source.id,
+        },
+      };
+    }
+
+    // Point at the run that actually did the work, not another cache hit
+    job.cacheHit = source.cacheHit
+      ? { ...source.cacheHit, reusedAt: now }
+      : { jobId: source.id, revision: source.revision, reusedAt: now };
+    cacheHits.inc();
+
+    this.log(
+      job,
+      "info",
+      `GLB and references unchanged since revision ${job.cacheHit.revision}, reusing its results`,
+      { data: { sourceJobId: job.cacheHit.jobId, glbHash: job.glbHash } }
+    );
+    console.log(
+      `♻️ Cache hit for ${job.id}: reusing results of ${job.cacheHit.jobId}`
+    );
+  }
+
+  // Drop the checkpoints (and outputs) of a stage and everything after it
+  private resetStages(job: QAJob, fromStage: QAStage) {
+    const from = QA_STAGES.indexOf(fromStage);
+
+    for (const stage of QA_STAGES.slice(from)) {
+      if (job.stages) delete job.stages[stage];
+
+      if (stage === "download") job.glbHash = undefined;
+      if (stage !== "sheet") job.cacheHit = undefined;
+      if (stage === "upload") job.glbUrl = undefined;
+      if (stage === "screenshots") {
+        job.screenshots = undefined;
+        job.modelStats = undefined;
+      }
+      if (stage === "analysis") job.aiAnalysis = undefined;
+      if (stage === "pdf") job.pdfUrl = undefined;
     }
+  }
 
-    this.isProcessing = false;
-    console.log("✅ Job queue processor finished");
+  // Where the download stage keeps the GLB until the upload stage is done
+  private glbTempPath(job: QAJob): string {
+    return path.join("/tmp", "qa-glb", `${job.id}.glb`);
+  }
+
+  private removeStageFiles(job: QAJob) {
+    fs.rmSync(this.glbTempPath(job), { force: true });
   }
 
   // Process a single job
   private async processJob(job: QAJob) {
     console.log(`🔄 Processing job: ${job.id} (Article: ${job.articleId})`);
 
+    const controller = new AbortController();
+    this.abortControllers.set(job.id, controller);
+
     job.status = "processing";
     job.startedAt = new Date().toISOString();
-    job.processingLogs.push(`Started processing at ${job.startedAt}`);
+    job.nextAttemptAt = undefined;
+    this.log(job, "info", `Started processing at ${job.startedAt}`, {
+      data: { worker: WORKER_ID },
+    });
+    this.persist(job);
+    this.emit("job.updated", job);
+
+    // Settles as soon as the job is aborted, so a hung Puppeteer or fetch
+    // call can't hold on to the worker
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener(
+        "abort",
+        () => reject(controller.signal.reason),
+        { once: true }
+      );
+    });
+    aborted.catch(() => undefined);
 
     try {
+      controller.signal.throwIfAborted();
+
       // Call the actual processing function
-      const result: {
-        screenshots: string[];
-        modelStats?: any;
-        aiAnalysis?: any;
-        pdfUrl?: string;
-      } = await this.executeQAProcessing(job);
+      await Promise.race([
+        this.executeQAProcessing(job, controller.signal),
+        aborted,
+      ]);
+      controller.signal.throwIfAborted();
 
       job.status = "completed";
       job.completedAt = new Date().toISOString();
-      job.screenshots = result.screenshots;
-      job.modelStats = result.modelStats;
-      job.aiAnalysis = result.aiAnalysis;
-      job.pdfUrl = result.pdfUrl;
-      job.processingLogs.push(`Completed successfully at ${job.completedAt}`);
-      job.processingLogs.push(
-        `Generated ${result.screenshots.length} screenshots`
-      );
+      this.log(job, "info", `Completed successfully at ${job.completedAt}`, {
+        data: {
+          screenshots: job.screenshots?.length ?? 0,
+          qaStatus: job.aiAnalysis?.status,
+          pdfUrl: job.pdfUrl,
+          vertices: job.modelStats?.vertices,
+          triangles: job.modelStats?.triangles,
+        },
+      });
 
-      if (result.aiAnalysis) {
-        job.processingLogs.push(`AI Analysis: ${result.aiAnalysis.status}`);
+      this.removeStageFiles(job);
+      this.persist(job);
+      this.emit("job.completed", job);
+      webhookManager.dispatch(job);
+      jobsFinished.inc({ status: "completed" });
+      if (job.aiAnalysis) {
+        qaResults.inc({
+          result:
+            job.aiAnalysis.status === "Approved" ? "approved" : "not_approved",
+        });
       }
+      console.log(`✅ Job completed: ${job.id}`);
+    } catch (error) {
+      // cancelJob has already recorded the outcome
+      if (controller.signal.reason instanceof CancelledError) return;
 
-      if (result.pdfUrl) {
-        job.processingLogs.push(`PDF Report: ${result.pdfUrl}`);
+      // Whatever the store holds now wins: the cancellation, or the run of
+      // the worker that took the job over
+      if (controller.signal.reason instanceof LeaseLostError) {
+        const stored = this.store.load(job.id);
+        if (stored) {
+          this.jobs.set(job.id, this.hydrate(stored));
+        } else {
+          this.jobs.delete(job.id);
+        }
+        return;
       }
 
-      if (result.modelStats) {
-        job.processingLogs.push(
-          `Model Stats: ${result.modelStats.vertices} vertices, ${result.modelStats.triangles} triangles`
+      // Shutting down: keep the checkpoints and pick the job up again on
+      // the next start, without counting it as a failed attempt
+      if (controller.signal.reason instanceof InterruptedError) {
+        job.status = "pending";
+        job.startedAt = undefined;
+        this.log(
+          job,
+          "warn",
+          `Interrupted: ${controller.signal.reason.message}`
         );
+        this.persist(job);
+        this.emit("job.updated", job);
+        return;
       }
 
-      // Update Google Sheet with results
-      if (job.sheetId && job.rowIndex && result.pdfUrl) {
-        job.processingLogs.push("Updating Google Sheet with PDF link...");
-        try {
-          await this.updateGoogleSheet(job);
-          job.processingLogs.push("✅ Google Sheet updated successfully");
-        } catch (sheetError) {
-          const errorMsg = `Sheet update failed: ${
-            sheetError instanceof Error ? sheetError.message : "Unknown error"
-          }`;
-          job.processingLogs.push(`⚠️ ${errorMsg}`);
-          // Don't fail the entire job if sheet update fails
-        }
-      }
-
-      console.log(`✅ Job completed: ${job.id}`);
-    } catch (error) {
+      // When the watchdog aborted the job, report the timeout rather than
+      // whatever error the closed browser produced
       this.handleJobError(
         job,
-        error instanceof Error ? error.message : "Unknown error"
+        controller.signal.aborted ? controller.signal.reason : error
       );
+    } finally {
+      this.abortControllers.delete(job.id);
     }
   }
 
   // Update Google Sheet with QA results
-  private async updateGoogleSheet(job: QAJob): Promise<void> {
+  private async updateGoogleSheet(
+    job: QAJob,
+    signal?: AbortSignal
+  ): Promise<void> {
     if (!job.sheetId || !job.rowIndex) {
       throw new Error("Missing sheet information for update");
     }
@@ -272,8 +1688,9 @@ class JobQueue {
       sheetId: job.sheetId,
       rowIndex: job.rowIndex,
       pdfUrl: job.pdfUrl,
-      status: job.aiAnalysis?.status,
-      summary: job.aiAnalysis?.summary,
+      ...(job.status === "needs_references"
+        ? { status: "Needs References", summary: job.referenceCheck?.reason }
+        : { status: job.aiAnalysis?.status, summary: job.aiAnalysis?.summary }),
     };
 
     console.log("📊 Calling sheet update API with:", updatePayload);
@@ -284,6 +1701,7 @@ class JobQueue {
         "Content-Type": "application/json",
       },
       body: JSON.stringify(updatePayload),
+      signal,
     });
 
     if (!response.ok) {
@@ -298,155 +1716,297 @@ class JobQueue {
   }
 
   // Handle job errors and retries
-  private handleJobError(job: QAJob, errorMessage: string) {
+  private handleJobError(job: QAJob, rawError: unknown) {
+    const error = classifyError(rawError);
+
     job.retries++;
-    job.error = errorMessage;
-    job.processingLogs.push(`Error (attempt ${job.retries}): ${errorMessage}`);
+    job.error = error.message;
+    job.errorType = error.kind;
+    this.log(
+      job,
+      "error",
+      `Error (attempt ${job.retries}, ${error.kind}): ${error.message}`,
+      { data: { kind: error.kind, retryable: error.retryable } }
+    );
 
-    if (job.retries < job.maxRetries) {
+    if (!error.retryable) {
+      job.status = "failed";
+      job.completedAt = new Date().toISOString();
+      job.nextAttemptAt = undefined;
+      this.log(
+        job,
+        "error",
+        `Failed permanently: ${error.kind} errors are not retried`
+      );
+      console.log(`❌ Job ${job.id} failed with non-retryable ${error.kind}`);
+      this.removeStageFiles(job);
+    } else if (job.retries < job.maxRetries) {
+      const delayMs = computeBackoff(job.retries, error.retryAfterMs);
       job.status = "pending";
+      job.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
       this.queue.push(job.id); // Re-add to queue for retry
-      job.processingLogs.push(
-        `Retry scheduled (${job.retries}/${job.maxRetries})`
+      this.scheduleWakeUp(delayMs);
+      this.log(
+        job,
+        "warn",
+        `Retry scheduled (${job.retries}/${job.maxRetries}) at ${job.nextAttemptAt}`,
+        { data: { delayMs } }
       );
       console.log(
-        `🔄 Job ${job.id} will be retried (${job.retries}/${job.maxRetries})`
+        `🔄 Job ${job.id} will be retried (${job.retries}/${
+          job.maxRetries
+        }) in ${Math.round(delayMs / 1000)}s`
       );
     } else {
       job.status = "failed";
       job.completedAt = new Date().toISOString();
-      job.processingLogs.push(
+      job.nextAttemptAt = undefined;
+      this.log(
+        job,
+        "error",
         `Failed permanently after ${job.retries} attempts`
       );
       console.log(
         `❌ Job ${job.id} failed permanently after ${job.retries} attempts`
       );
+      this.removeStageFiles(job);
     }
-  }
 
-  // The actual QA processing logic
-  // Updated executeQAProcessing method in lib/queue.ts
+    this.persist(job);
+    this.emit(job.status === "failed" ? "job.failed" : "job.updated", job);
+
+    if (job.status === "failed") {
+      webhookManager.dispatch(job);
+      jobsFinished.inc({ status: "failed" });
+    } else {
+      jobRetries.inc({ error_type: error.kind });
+    }
+  }
 
-  private async executeQAProcessing(job: QAJob): Promise<{
-    screenshots: string[];
-    modelStats?: any;
-    aiAnalysis?: any;
-    pdfUrl?: string;
-  }> {
+  // The actual QA processing logic, as named stages:
+  // download → upload → screenshots → analysis → pdf → sheet
+  private async executeQAProcessing(
+    job: QAJob,
+    signal: AbortSignal
+  ): Promise<void> {
     // Import the screenshot processor, AI analyzer, and PDF generator
     const { screenshotProcessor } = await import("./screenshotProcessor");
     const { aiAnalyzer } = await import("./aiAnalysis");
     const { generateQAReport } = await import("./pdfGenerator");
 
-    // Step 1: Process screenshots using the dedicated processor
-    job.processingLogs.push("Starting screenshot generation...");
-    const screenshotResult = await screenshotProcessor.processScreenshots(job);
+    const glbPath = this.glbTempPath(job);
+    const options = resolveJobOptions(job.options);
 
-    // Add processing logs to the job
-    job.processingLogs.push(...screenshotResult.processingLogs);
+    // The downloaded GLB only lives in /tmp - fetch it again if it's gone
+    // before the upload stage could use it
+    if (!this.isStageComplete(job, "upload") && !fs.existsSync(glbPath)) {
+      this.resetStages(job, "download");
+    }
 
-    let aiAnalysisResult = null;
-    let pdfUrl: string | undefined = undefined;
+    // Stage 1: Download GLB from Google Drive
+    await this.runStage(job, "download", signal, async () => {
+      this.log(job, "info", "Downloading GLB file from Google Drive...");
+      const glbBuffer = await screenshotProcessor.downloadGLB(
+        job.articleId,
+        signal,
+        job.projectId
+      );
 
-    // Step 2: Run AI analysis on screenshots vs references
-    if (screenshotResult.screenshots.length > 0 && job.references.length > 0) {
-      job.processingLogs.push(
-        `Starting AI analysis with ${screenshotResult.screenshots.length} screenshots and ${job.references.length} references...`
+      fs.mkdirSync(path.dirname(glbPath), { recursive: true });
+      fs.writeFileSync(glbPath, glbBuffer);
+      job.glbSize = glbBuffer.length;
+      job.glbHash = hashGLB(glbBuffer);
+      job.referencesHash = hashReferences(job.references);
+      this.log(
+        job,
+        "info",
+        `GLB file downloaded successfully: ${glbBuffer.length} bytes`,
+        { data: { bytes: glbBuffer.length, glbHash: job.glbHash } }
       );
 
-      // Log model stats if available
-      if (screenshotResult.modelStats) {
-        const fileSizeMB = (
-          screenshotResult.modelStats.fileSize /
-          (1024 * 1024)
-        ).toFixed(2);
-        job.processingLogs.push(
-          `Model statistics: ${screenshotResult.modelStats.triangles} triangles, ${screenshotResult.modelStats.meshCount} meshes, ${screenshotResult.modelStats.materialCount} materials, ${fileSizeMB}MB`
-        );
+      // Same file and references as a finished run: reuse its results
+      // instead of rendering again and paying for another AI call
+      // Dry runs exist to exercise every stage, so they never reuse results
+      const cached =
+        job.force || job.dryRun ? undefined : this.findCachedRun(job);
+      if (cached) {
+        this.reuseCachedRun(job, cached);
       }
+    });
+    signal.throwIfAborted();
 
-      try {
-        aiAnalysisResult = await aiAnalyzer.analyzeScreenshots({
-          screenshots: screenshotResult.screenshots,
-          references: job.references,
-          articleId: job.articleId,
-          productName: job.productName,
-          modelStats: screenshotResult.modelStats, // 🔥 Pass model stats to AI
-        });
+    // Stage 2: Upload GLB to blob storage for model-viewer
+    await this.runStage(job, "upload", signal, async () => {
+      const glbBuffer = fs.readFileSync(glbPath);
+      job.glbUrl = await screenshotProcessor.uploadGLBToBlob(glbBuffer, job);
+      this.log(job, "info", "GLB uploaded to blob storage for model-viewer", {
+        data: { glbUrl: job.glbUrl },
+      });
+    });
+    signal.throwIfAborted();
 
-        job.processingLogs.push("✅ AI analysis completed successfully");
-        job.processingLogs.push(`Analysis status: ${aiAnalysisResult.status}`);
-        job.processingLogs.push(
-          `Found ${aiAnalysisResult.differences.length} differences`
+    // Stage 3: Render screenshots and extract model stats
+    await this.runStage(job, "screenshots", signal, async () => {
+      if (!job.glbUrl) {
+        throw new InternalError("Upload stage did not produce a GLB URL");
+      }
+
+      this.log(job, "info", "Starting screenshot generation...");
+      const screenshotResult = await screenshotProcessor.captureScreenshots(
+        job,
+        job.glbUrl,
+        job.glbSize ?? 0,
+        signal,
+        (entry) => this.appendLog(job, entry)
+      );
+
+      job.screenshots = screenshotResult.screenshots;
+      job.modelStats = screenshotResult.modelStats;
+    });
+    signal.throwIfAborted();
+
+    // Stage 4: Run AI analysis on screenshots vs references
+    const screenshots = job.screenshots ?? [];
+    if (options.skipAI) {
+      this.skipStage(job, "analysis", "AI analysis disabled in job options");
+    } else if (screenshots.length > 0 && job.references.length > 0) {
+      await this.runStage(job, "analysis", signal, async () => {
+        this.log(
+          job,
+          "info",
+          `Starting AI analysis with ${screenshots.length} screenshots and ${job.references.length} references...`
         );
 
-        if (aiAnalysisResult.scores) {
-          job.processingLogs.push(
-            `Similarity scores - Silhouette: ${aiAnalysisResult.scores.silhouette}%, Proportion: ${aiAnalysisResult.scores.proportion}%, Color/Material: ${aiAnalysisResult.scores.colorMaterial}%, Overall: ${aiAnalysisResult.scores.overall}%`
+        // Log model stats if available
+        if (job.modelStats) {
+          const fileSizeMB = (job.modelStats.fileSize / (1024 * 1024)).toFixed(
+            2
+          );
+          this.log(
+            job,
+            "debug",
+            `Model statistics: ${job.modelStats.triangles} triangles, ${job.modelStats.meshCount} meshes, ${job.modelStats.materialCount} materials, ${fileSizeMB}MB`,
+            { data: { ...job.modelStats } }
           );
         }
 
-        // Step 3: Generate PDF report if AI analysis succeeded
-        job.processingLogs.push("Starting PDF report generation...");
-
         try {
-          // Temporarily store AI analysis in job for PDF generation
+          const aiAnalysisResult = await aiAnalyzer.analyzeScreenshots({
+            // OpenAI can't fetch a dry run's local screenshots
+            screenshots: job.dryRun
+              ? screenshots.map((url) => inlineArtifact(job, url))
+              : screenshots,
+            references: job.references,
+            articleId: job.articleId,
+            productName: job.productName,
+            modelStats: job.modelStats, // 🔥 Pass model stats to AI
+            specProfile: options.specProfile,
+            signal,
+          });
           job.aiAnalysis = aiAnalysisResult;
-          job.screenshots = screenshotResult.screenshots;
-          job.modelStats = screenshotResult.modelStats;
-          const pdfResult = await generateQAReport(job);
-          pdfUrl = pdfResult.pdfUrl;
-
-          job.processingLogs.push(...pdfResult.processingLogs);
-          job.processingLogs.push(`✅ PDF report generated: ${pdfUrl}`);
-        } catch (pdfError) {
-          const errorMsg = `PDF generation failed: ${
-            pdfError instanceof Error ? pdfError.message : "Unknown error"
+
+          this.log(
+            job,
+            "info",
+            `AI analysis completed: ${aiAnalysisResult.status}, ${aiAnalysisResult.differences.length} differences`,
+            {
+              data: {
+                status: aiAnalysisResult.status,
+                differences: aiAnalysisResult.differences.length,
+                scores: aiAnalysisResult.scores,
+              },
+            }
+          );
+        } catch (aiError) {
+          signal.throwIfAborted();
+
+          // Transient provider failures (rate limits, timeouts, 5xx) fail the
+          // attempt so the job is retried with backoff instead of finishing
+          // without an analysis
+          if (aiError instanceof PipelineError && aiError.retryable) {
+            throw aiError;
+          }
+
+          const errorMsg = `AI analysis failed: ${
+            aiError instanceof Error ? aiError.message : "Unknown error"
           }`;
-          job.processingLogs.push(`❌ ${errorMsg}`);
-          // Continue without PDF rather than failing the entire job
-          job.processingLogs.push("⚠️ Continuing without PDF report");
+          this.log(job, "error", errorMsg);
+
+          // Continue without AI analysis rather than failing the entire job
+          this.log(
+            job,
+            "warn",
+            "Continuing without AI analysis and PDF report"
+          );
+          const checkpoint = job.stages?.analysis;
+          if (checkpoint) {
+            checkpoint.status = "failed";
+            checkpoint.error = errorMsg;
+          }
         }
-      } catch (aiError) {
-        const errorMsg = `AI analysis failed: ${
-          aiError instanceof Error ? aiError.message : "Unknown error"
-        }`;
-        job.processingLogs.push(`❌ ${errorMsg}`);
-
-        // Continue without AI analysis rather than failing the entire job
-        job.processingLogs.push(
-          "⚠️ Continuing without AI analysis and PDF report"
+      });
+    } else {
+      this.skipStage(job, "analysis", "no screenshots or references available");
+    }
+    signal.throwIfAborted();
+
+    // Stage 5: Generate PDF report if AI analysis succeeded
+    if (options.skipPDF) {
+      this.skipStage(job, "pdf", "PDF report disabled in job options");
+    } else if (job.aiAnalysis) {
+      await this.runStage(job, "pdf", signal, async () => {
+        this.log(job, "info", "Starting PDF report generation...");
+        const pdfResult = await generateQAReport(
+          job,
+          (entry) => this.appendLog(job, entry),
+          signal
         );
-      }
+        // Don't let a report from an aborted attempt replace a retry's
+        signal.throwIfAborted();
+        job.pdfUrl = pdfResult.pdfUrl;
+        this.log(job, "info", `PDF report generated: ${job.pdfUrl}`);
+      });
     } else {
-      job.processingLogs.push(
-        "⚠️ Skipping AI analysis and PDF generation - no screenshots or references available"
-      );
+      this.skipStage(job, "pdf", "no AI analysis available");
     }
+    signal.throwIfAborted();
 
-    return {
-      screenshots: screenshotResult.screenshots,
-      modelStats: screenshotResult.modelStats, // 🔥 Return model stats
-      aiAnalysis: aiAnalysisResult,
-      pdfUrl: pdfUrl || undefined,
-    };
+    // Stage 6: Update Google Sheet with results
+    if (job.dryRun) {
+      this.skipStage(job, "sheet", "dry run, the sheet is left untouched");
+    } else if (options.skipSheetUpdate) {
+      this.skipStage(job, "sheet", "sheet update disabled in job options");
+    } else if (job.sheetId && job.rowIndex && job.pdfUrl) {
+      await this.runStage(job, "sheet", signal, async () => {
+        this.log(job, "info", "Updating Google Sheet with PDF link...");
+        await this.updateGoogleSheet(job, signal);
+        this.log(job, "info", "Google Sheet updated successfully");
+      });
+    } else {
+      this.skipStage(job, "sheet", "no sheet row or PDF report to write back");
+    }
   }
 
-  // Clean up old completed/failed jobs
+  // Clean up old dry runs and held jobs. Numbered revisions are the
+  // articles' QA history and are never pruned.
   private cleanupOldJobs() {
-    if (this.jobs.size <= this.MAX_JOBS) return;
-
-    const jobsArray = Array.from(this.jobs.entries()).sort(
-      ([, a], [, b]) =>
-        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-    );
+    const jobsArray = Array.from(this.jobs.entries())
+      .filter(([, job]) => !countsAsRevision(job))
+      .sort(
+        ([, a], [, b]) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+    if (jobsArray.length <= this.MAX_JOBS) return;
 
     // Keep only the most recent MAX_JOBS
     const jobsToRemove = jobsArray.slice(0, jobsArray.length - this.MAX_JOBS);
 
     for (const [jobId] of jobsToRemove) {
-      if (this.jobs.get(jobId)?.status !== "processing") {
+      const status = this.jobs.get(jobId)?.status;
+      if (status !== "processing" && status !== "pending") {
         this.jobs.delete(jobId);
+        this.store.remove(jobId);
+        removeArtifacts(jobId);
       }
     }
 
@@ -454,6 +2014,11 @@ class JobQueue {
   }
 }
 
-// Global singleton instance
-const globalQueue = new JobQueue();
+// Global singleton instance. Next.js loads instrumentation.ts (and the
+// scheduler it starts) in its own module graph, so this module can be
+// evaluated twice in one process; the first copy's queue is shared with
+// the others so there is only ever one set of workers and one job list.
+const globalQueue = ((
+  globalThis as { __qaJobQueue?: JobQueue }
+).__qaJobQueue ??= new JobQueue());
 export default globalQueue;
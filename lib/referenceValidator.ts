@@ -0,0 +1,326 @@
+// lib/referenceValidator.ts
+
+import { Semaphore } from "./concurrency";
+import { resolveJobOptions } from "./jobOptions";
+import type { QAJobInput } from "./queue";
+
+// Pre-flight check of a job's reference images. Broken links, HTML share
+// pages and tiny thumbnails otherwise only show up as a failed or useless
+// GPT-4o analysis, after the model has been downloaded and rendered.
+
+// Formats the vision API accepts
+export type ReferenceImageFormat = "jpeg" | "png" | "webp" | "gif";
+
+export interface ReferenceImageInfo {
+  url: string;
+  ok: boolean;
+  format?: ReferenceImageFormat;
+  width?: number;
+  height?: number;
+  bytes?: number;
+  error?: string;
+}
+
+export interface ReferenceCheck {
+  ok: boolean;
+  checkedAt: string;
+  images: ReferenceImageInfo[];
+  reason?: string; // Why the references are not usable, for the sheet
+}
+
+// What happens to a trigger whose references fail the check:
+// - mark: the job is created as "needs_references" and the sheet is told why
+// - reject: no job is created and the caller gets the reason
+// - off: references are not checked
+export type ReferencePolicy = "mark" | "reject" | "off";
+
+export class ReferenceValidationError extends Error {
+  readonly check: ReferenceCheck;
+
+  constructor(check: ReferenceCheck) {
+    super(check.reason || "Reference images failed validation");
+    this.name = "ReferenceValidationError";
+    this.check = check;
+  }
+}
+
+export const REFERENCE_POLICY: ReferencePolicy = (
+  ["mark", "reject", "off"] as const
+).includes(process.env.QA_REFERENCE_POLICY as ReferencePolicy)
+  ? (process.env.QA_REFERENCE_POLICY as ReferencePolicy)
+  : "mark";
+const MIN_DIMENSION = Number(process.env.QA_REFERENCE_MIN_DIMENSION) || 256;
+const MAX_BYTES = (Number(process.env.QA_REFERENCE_MAX_MB) || 20) * 1024 * 1024;
+const FETCH_TIMEOUT_MS = Number(process.env.QA_REFERENCE_TIMEOUT_MS) || 15000;
+
+// Shared across jobs so a large batch doesn't open hundreds of downloads
+const downloads = new Semaphore(
+  Number(process.env.QA_REFERENCE_CONCURRENCY) || 6
+);
+
+// Format and size from the image header, plus a check that the file isn't
+// cut off. Returns undefined for anything that isn't a supported image.
+export function readImageInfo(
+  buffer: Buffer
+):
+  | { format: ReferenceImageFormat; width: number; height: number }
+  | { error: string }
+  | undefined {
+  // PNG: signature, then the IHDR chunk; a complete file ends with IEND
+  if (
+    buffer.length >= 24 &&
+    buffer.readUInt32BE(0) === 0x89504e47 &&
+    buffer.readUInt32BE(4) === 0x0d0a1a0a
+  ) {
+    if (buffer.lastIndexOf("IEND") === -1) {
+      return { error: "PNG file is truncated" };
+    }
+    return {
+      format: "png",
+      width: buffer.readUInt32BE(16),
+      height: buffer.readUInt32BE(20),
+    };
+  }
+
+  // JPEG: walk the segments up to the first start-of-frame marker
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    if (buffer.lastIndexOf(Buffer.from([0xff, 0xd9])) === -1) {
+      return { error: "JPEG file is truncated" };
+    }
+
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) return { error: "JPEG file is corrupt" };
+
+      const marker = buffer[offset + 1];
+      if (marker === 0xff) {
+        offset++; // Fill byte
+        continue;
+      }
+      // Markers without a length field
+      if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+        offset += 2;
+        continue;
+      }
+      // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+      if (
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc
+      ) {
+        return {
+          format: "jpeg",
+          height: buffer.readUInt16BE(offset + 5),
+          width: buffer.readUInt16BE(offset + 7),
+        };
+      }
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+    return { error: "JPEG file has no image frame" };
+  }
+
+  // GIF: logical screen size right after the signature
+  if (
+    buffer.length >= 10 &&
+    /^GIF8[79]a$/.test(buffer.toString("ascii", 0, 6))
+  ) {
+    return {
+      format: "gif",
+      width: buffer.readUInt16LE(6),
+      height: buffer.readUInt16LE(8),
+    };
+  }
+
+  // WebP: RIFF container with a lossy, lossless or extended first chunk
+  if (
+    buffer.length >= 30 &&
+    buffer.toString("ascii", 0, 4) === "RIFF" &&
+    buffer.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    const chunk = buffer.toString("ascii", 12, 16);
+    if (chunk === "VP8 ") {
+      return {
+        format: "webp",
+        width: buffer.readUInt16LE(26) & 0x3fff,
+        height: buffer.readUInt16LE(28) & 0x3fff,
+      };
+    }
+    if (chunk === "VP8L") {
+      const bits = buffer.readUInt32LE(21);
+      return {
+        format: "webp",
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >> 14) & 0x3fff) + 1,
+      };
+    }
+    if (chunk === "VP8X") {
+      return {
+        format: "webp",
+        width: buffer.readUIntLE(24, 3) + 1,
+        height: buffer.readUIntLE(27, 3) + 1,
+      };
+    }
+    return { error: "WebP file is corrupt" };
+  }
+
+  return undefined;
+}
+
+export async function checkReference(url: string): Promise<ReferenceImageInfo> {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return { url, ok: false, error: "Not an http(s) link" };
+    }
+  } catch {
+    return { url, ok: false, error: "Not a valid URL" };
+  }
+
+  return downloads.run(async () => {
+    try {
+      const response = await fetch(url, {
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        return {
+          url,
+          ok: false,
+          error: `Link returned HTTP ${response.status}`,
+        };
+      }
+
+      const contentType = response.headers.get("content-type") || "";
+      if (contentType.includes("text/html")) {
+        await response.body?.cancel();
+        return {
+          url,
+          ok: false,
+          error:
+            "Link opens a web page, not an image (use a direct image link)",
+        };
+      }
+
+      const declaredBytes = Number(response.headers.get("content-length"));
+      if (declaredBytes > MAX_BYTES) {
+        await response.body?.cancel();
+        return {
+          url,
+          ok: false,
+          bytes: declaredBytes,
+          error: `Image is larger than ${MAX_BYTES / 1024 / 1024} MB`,
+        };
+      }
+
+      const buffer = Buffer.from(await response.arrayBuffer());
+      if (buffer.length > MAX_BYTES) {
+        return {
+          url,
+          ok: false,
+          bytes: buffer.length,
+          error: `Image is larger than ${MAX_BYTES / 1024 / 1024} MB`,
+        };
+      }
+
+      const info = readImageInfo(buffer);
+      if (!info) {
+        return {
+          url,
+          ok: false,
+          bytes: buffer.length,
+          error: `Not a JPEG, PNG, WebP or GIF image (${
+            contentType || "unknown type"
+          })`,
+        };
+      }
+      if ("error" in info) {
+        return { url, ok: false, bytes: buffer.length, error: info.error };
+      }
+
+      const result = { url, bytes: buffer.length, ...info };
+      if (Math.min(info.width, info.height) < MIN_DIMENSION) {
+        return {
+          ...result,
+          ok: false,
+          error: `Image is ${info.width}x${info.height}, at least ${MIN_DIMENSION}px per side is needed`,
+        };
+      }
+
+      return { ...result, ok: true };
+    } catch (error) {
+      return {
+        url,
+        ok: false,
+        error:
+          error instanceof Error && error.name === "TimeoutError"
+            ? `Download timed out after ${FETCH_TIMEOUT_MS / 1000}s`
+            : `Download failed: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`,
+      };
+    }
+  });
+}
+
+// Check every reference. All of them have to pass; a single bad image is
+// enough for the analysis to compare against the wrong thing.
+export async function checkReferences(urls: string[]): Promise<ReferenceCheck> {
+  const checkedAt = new Date().toISOString();
+
+  if (urls.length === 0) {
+    return {
+      ok: false,
+      checkedAt,
+      images: [],
+      reason: "No reference images provided",
+    };
+  }
+
+  const images = await Promise.all(urls.map((url) => checkReference(url)));
+  const failed = images
+    .map((image, i) => ({ image, position: i + 1 }))
+    .filter(({ image }) => !image.ok);
+
+  return {
+    ok: failed.length === 0,
+    checkedAt,
+    images,
+    reason:
+      failed.length > 0
+        ? failed
+            .map(
+              ({ image, position }) => `Reference ${position}: ${image.error}`
+            )
+            .join("; ")
+        : undefined,
+  };
+}
+
+// Run before addJob. Attaches the check to the job input (addJob marks the
+// job "needs_references" if it failed), or throws a
+// ReferenceValidationError under the reject policy. Jobs without references,
+// or that skip the AI analysis, have nothing to check and run as before.
+export async function preflightReferences(
+  input: QAJobInput
+): Promise<QAJobInput> {
+  if (
+    REFERENCE_POLICY === "off" ||
+    input.references.length === 0 ||
+    resolveJobOptions(input.options).skipAI
+  ) {
+    return input;
+  }
+
+  const check = await checkReferences(input.references);
+  if (!check.ok) {
+    console.log(
+      `🖼️ References for article ${input.articleId} failed pre-flight: ${check.reason}`
+    );
+    if (REFERENCE_POLICY === "reject") {
+      throw new ReferenceValidationError(check);
+    }
+  }
+
+  return { ...input, referenceCheck: check };
+}
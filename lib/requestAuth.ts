@@ -0,0 +1,204 @@
+// lib/requestAuth.ts
+
+import crypto from "crypto";
+import { signPayload } from "./webhooks";
+import { statusChangeRejections } from "./metrics";
+
+// Signed status-change requests, sent by the sheet's Apps Script:
+//   X-QA-Timestamp: unix seconds
+//   X-QA-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+// - the same scheme our outgoing webhooks use. Each sheet can have its own
+// secret (QA_SHEET_SECRETS={"<sheetId>":"<secret>"}); other sheets use
+// QA_STATUS_CHANGE_SECRET.
+
+export type RejectionReason =
+  | "missing_signature"
+  | "bad_timestamp"
+  | "stale_timestamp"
+  | "bad_signature"
+  | "replayed"
+  | "no_secret"
+  | "malformed_body";
+
+export interface RejectedRequest {
+  timestamp: string;
+  reason: RejectionReason;
+  sheetId?: string;
+  ip?: string;
+}
+
+export type VerifyResult =
+  | { ok: true; authenticated: boolean }
+  | { ok: false; reason: RejectionReason; message: string };
+
+const TOLERANCE_SECONDS =
+  Number(process.env.QA_SIGNATURE_TOLERANCE_SECONDS) || 5 * 60;
+const MAX_STORED_REJECTIONS = 50;
+
+function loadSheetSecrets(): Record<string, string> {
+  if (!process.env.QA_SHEET_SECRETS) return {};
+
+  try {
+    return JSON.parse(process.env.QA_SHEET_SECRETS);
+  } catch (error) {
+    console.error("❌ QA_SHEET_SECRETS is not valid JSON:", error);
+    return {};
+  }
+}
+
+class StatusChangeVerifier {
+  private sheetSecrets = loadSheetSecrets();
+  private defaultSecret = process.env.QA_STATUS_CHANGE_SECRET;
+  // Signatures seen inside the tolerance window, so a captured request
+  // can't be sent again while its timestamp is still fresh
+  private seenSignatures: Map<string, number> = new Map();
+  private rejections: RejectedRequest[] = [];
+
+  constructor() {
+    if (!this.enabled) {
+      console.warn(
+        "⚠️ No QA_STATUS_CHANGE_SECRET or QA_SHEET_SECRETS set, /api/status-change accepts unsigned requests"
+      );
+    }
+  }
+
+  get enabled(): boolean {
+    return !!this.defaultSecret || Object.keys(this.sheetSecrets).length > 0;
+  }
+
+  verify(
+    rawBody: string,
+    headers: Headers,
+    sheetId: string | undefined
+  ): VerifyResult {
+    // Nothing configured yet: keep accepting so existing sheets don't break
+    if (!this.enabled) return { ok: true, authenticated: false };
+
+    const secret =
+      (sheetId && this.sheetSecrets[sheetId]) || this.defaultSecret;
+    if (!secret) {
+      return {
+        ok: false,
+        reason: "no_secret",
+        message: `No secret configured for sheet ${sheetId ?? "(none)"}`,
+      };
+    }
+
+    const timestamp = headers.get("x-qa-timestamp");
+    const signature = headers.get("x-qa-signature");
+    if (!timestamp || !signature) {
+      return {
+        ok: false,
+        reason: "missing_signature",
+        message: "X-QA-Timestamp and X-QA-Signature headers are required",
+      };
+    }
+
+    const seconds = Number(timestamp);
+    if (!Number.isInteger(seconds)) {
+      return {
+        ok: false,
+        reason: "bad_timestamp",
+        message: "X-QA-Timestamp must be unix seconds",
+      };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (Math.abs(now - seconds) > TOLERANCE_SECONDS) {
+      return {
+        ok: false,
+        reason: "stale_timestamp",
+        message: `Timestamp is more than ${TOLERANCE_SECONDS}s from server time`,
+      };
+    }
+
+    const expected = Buffer.from(signPayload(secret, timestamp, rawBody));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !crypto.timingSafeEqual(expected, received)
+    ) {
+      return {
+        ok: false,
+        reason: "bad_signature",
+        message: "Signature does not match",
+      };
+    }
+
+    this.forgetExpiredSignatures(now);
+    if (this.seenSignatures.has(signature)) {
+      return {
+        ok: false,
+        reason: "replayed",
+        message: "This request was already received",
+      };
+    }
+    this.seenSignatures.set(signature, seconds);
+
+    return { ok: true, authenticated: true };
+  }
+
+  private forgetExpiredSignatures(now: number) {
+    for (const [signature, seconds] of this.seenSignatures) {
+      if (now - seconds > TOLERANCE_SECONDS) {
+        this.seenSignatures.delete(signature);
+      }
+    }
+  }
+
+  // Log and count a rejected request
+  reject(rejection: Omit<RejectedRequest, "timestamp">, message: string) {
+    const entry = { timestamp: new Date().toISOString(), ...rejection };
+
+    this.rejections.unshift(entry);
+    if (this.rejections.length > MAX_STORED_REJECTIONS) {
+      this.rejections.splice(MAX_STORED_REJECTIONS);
+    }
+    statusChangeRejections.inc({ reason: rejection.reason });
+
+    console.warn(
+      `🚫 Rejected status change (${rejection.reason}) from ${
+        rejection.ip ?? "unknown"
+      }, sheet ${rejection.sheetId ?? "unknown"}: ${message}`
+    );
+  }
+
+  getRejections(): RejectedRequest[] {
+    return this.rejections;
+  }
+}
+
+export const statusChangeVerifier = new StatusChangeVerifier();
+
+export type AdminCheck =
+  | { ok: true }
+  | { ok: false; status: 401 | 503; message: string };
+
+// Admin endpoints that hand out secrets (webhook subscriptions) need
+// "Authorization: Bearer <QA_ADMIN_TOKEN>". Unlike status changes they stay
+// closed until a token is configured.
+export function checkAdminRequest(headers: Headers): AdminCheck {
+  const token = process.env.QA_ADMIN_TOKEN;
+  if (!token) {
+    return {
+      ok: false,
+      status: 503,
+      message: "QA_ADMIN_TOKEN is not set, admin endpoints are disabled",
+    };
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(headers.get("authorization") ?? "");
+  if (
+    expected.length !== received.length ||
+    !crypto.timingSafeEqual(expected, received)
+  ) {
+    return {
+      ok: false,
+      status: 401,
+      message: "Authorization: Bearer <QA_ADMIN_TOKEN> is required",
+    };
+  }
+
+  return { ok: true };
+}
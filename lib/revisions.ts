@@ -0,0 +1,126 @@
+// lib/revisions.ts
+
+import type { QAJob } from "./queue";
+
+type Scores = NonNullable<NonNullable<QAJob["aiAnalysis"]>["scores"]>;
+type ModelStats = NonNullable<QAJob["modelStats"]>;
+
+export interface ValueChange {
+  from?: number;
+  to?: number;
+  delta?: number;
+}
+
+export interface RevisionSummary {
+  revision: number;
+  jobId: string;
+  status: QAJob["status"];
+  createdAt: string;
+  completedAt?: string;
+  qaStatus?: "Approved" | "Not Approved";
+  pdfUrl?: string;
+}
+
+export interface RevisionComparison {
+  articleId: string;
+  from: RevisionSummary;
+  to: RevisionSummary;
+  scores: Record<keyof Scores, ValueChange>;
+  modelStats: Record<
+    Exclude<keyof ModelStats, "doubleSidedMaterials">,
+    ValueChange
+  >;
+  issues: {
+    resolved: string[];
+    introduced: string[];
+    unchanged: string[];
+  };
+}
+
+const SCORE_KEYS: Array<keyof Scores> = [
+  "silhouette",
+  "proportion",
+  "colorMaterial",
+  "overall",
+];
+
+const STAT_KEYS: Array<Exclude<keyof ModelStats, "doubleSidedMaterials">> = [
+  "triangles",
+  "vertices",
+  "meshCount",
+  "materialCount",
+  "doubleSidedCount",
+  "fileSize",
+];
+
+export function summarizeRevision(job: QAJob): RevisionSummary {
+  return {
+    revision: job.revision ?? 1,
+    jobId: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    qaStatus: job.aiAnalysis?.status,
+    pdfUrl: job.pdfUrl,
+  };
+}
+
+function change(from?: number, to?: number): ValueChange {
+  return {
+    from,
+    to,
+    delta: from !== undefined && to !== undefined ? to - from : undefined,
+  };
+}
+
+// All issue texts reported by the AI for a job
+function collectIssues(job: QAJob): Map<string, string> {
+  const issues = new Map<string, string>();
+  for (const difference of job.aiAnalysis?.differences ?? []) {
+    for (const issue of difference.issues) {
+      // Key on normalized text so whitespace/case changes don't count
+      issues.set(issue.trim().toLowerCase(), issue.trim());
+    }
+  }
+  return issues;
+}
+
+// Compare two runs of the same article: how scores, tech stats and the
+// reported issues changed from one revision to the next
+export function compareRevisions(from: QAJob, to: QAJob): RevisionComparison {
+  const scores = Object.fromEntries(
+    SCORE_KEYS.map((key) => [
+      key,
+      change(from.aiAnalysis?.scores?.[key], to.aiAnalysis?.scores?.[key]),
+    ])
+  ) as RevisionComparison["scores"];
+
+  const modelStats = Object.fromEntries(
+    STAT_KEYS.map((key) => [
+      key,
+      change(from.modelStats?.[key], to.modelStats?.[key]),
+    ])
+  ) as RevisionComparison["modelStats"];
+
+  const fromIssues = collectIssues(from);
+  const toIssues = collectIssues(to);
+
+  return {
+    articleId: to.articleId,
+    from: summarizeRevision(from),
+    to: summarizeRevision(to),
+    scores,
+    modelStats,
+    issues: {
+      resolved: [...fromIssues.entries()]
+        .filter(([key]) => !toIssues.has(key))
+        .map(([, text]) => text),
+      introduced: [...toIssues.entries()]
+        .filter(([key]) => !fromIssues.has(key))
+        .map(([, text]) => text),
+      unchanged: [...toIssues.entries()]
+        .filter(([key]) => fromIssues.has(key))
+        .map(([, text]) => text),
+    },
+  };
+}
@@ -0,0 +1,383 @@
+// lib/scheduler.ts
+
+import crypto from "crypto";
+import fs from "fs";
+import globalQueue, { QAJob, QueueFullError } from "./queue";
+import { batchManager } from "./batches";
+import { dataPath, readJSONFile, writeJSONFile } from "./dataStore";
+
+// Which articles a scheduled run re-validates
+export type ScheduleTarget =
+  | { type: "articles"; articleIds: string[] }
+  | { type: "batch"; batchId: string }
+  | { type: "approvedBefore"; before: string };
+
+export interface ScheduleRun {
+  startedAt: string;
+  trigger: "cron" | "manual";
+  enqueued: number;
+  skipped: number; // Already pending/processing, or nothing to re-run from
+  rejected: number; // Queue was full
+  jobIds: string[];
+}
+
+export interface Schedule {
+  id: string;
+  name: string;
+  cron: string; // "minute hour day-of-month month day-of-week"
+  target: ScheduleTarget;
+  updateSheet: boolean; // Write re-QA results back to the sheet row
+  enabled: boolean;
+  createdAt: string;
+  lastRun?: ScheduleRun;
+}
+
+export class ScheduleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleValidationError";
+  }
+}
+
+const CRON_FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 6 },
+];
+
+// Parse a standard 5-field cron expression (*, lists, ranges and steps)
+// into the set of allowed values for each field
+export function parseCron(expression: string): Set<number>[] {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== CRON_FIELDS.length) {
+    throw new ScheduleValidationError(
+      `Cron expression must have 5 fields, got "${expression}"`
+    );
+  }
+
+  return parts.map((part, index) => {
+    const { name, min, max } = CRON_FIELDS[index];
+    const values = new Set<number>();
+
+    for (const item of part.split(",")) {
+      const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+      if (!match) {
+        throw new ScheduleValidationError(`Invalid ${name} field: "${part}"`);
+      }
+
+      const start = match[1] === "*" ? min : Number(match[2]);
+      const end =
+        match[1] === "*"
+          ? max
+          : match[3] !== undefined
+          ? Number(match[3])
+          : match[4] !== undefined
+          ? max
+          : start;
+      const step = match[4] !== undefined ? Number(match[4]) : 1;
+
+      if (start < min || end > max || start > end || step < 1) {
+        throw new ScheduleValidationError(
+          `${name} field "${part}" is out of range ${min}-${max}`
+        );
+      }
+
+      for (let value = start; value <= end; value += step) {
+        // Day of week 7 is Sunday too
+        values.add(index === 4 && value === 7 ? 0 : value);
+      }
+    }
+
+    return values;
+  });
+}
+
+function cronMatches(fields: Set<number>[], date: Date): boolean {
+  return (
+    fields[0].has(date.getMinutes()) &&
+    fields[1].has(date.getHours()) &&
+    fields[2].has(date.getDate()) &&
+    fields[3].has(date.getMonth() + 1) &&
+    fields[4].has(date.getDay())
+  );
+}
+
+function validateTarget(target: unknown): ScheduleTarget {
+  const value = target as Partial<Record<string, unknown>> | undefined;
+
+  if (value?.type === "articles") {
+    if (
+      !Array.isArray(value.articleIds) ||
+      value.articleIds.length === 0 ||
+      value.articleIds.some((id) => typeof id !== "string" || !id)
+    ) {
+      throw new ScheduleValidationError(
+        "articles target needs a non-empty articleIds array"
+      );
+    }
+    return { type: "articles", articleIds: value.articleIds as string[] };
+  }
+
+  if (value?.type === "batch") {
+    if (typeof value.batchId !== "string" || !value.batchId) {
+      throw new ScheduleValidationError("batch target needs a batchId");
+    }
+    return { type: "batch", batchId: value.batchId };
+  }
+
+  if (value?.type === "approvedBefore") {
+    if (
+      typeof value.before !== "string" ||
+      Number.isNaN(new Date(value.before).getTime())
+    ) {
+      throw new ScheduleValidationError(
+        "approvedBefore target needs an ISO date in before"
+      );
+    }
+    return { type: "approvedBefore", before: value.before };
+  }
+
+  throw new ScheduleValidationError(
+    'target.type must be "articles", "batch" or "approvedBefore"'
+  );
+}
+
+const TICK_INTERVAL_MS = 60 * 1000;
+
+class Scheduler {
+  private filePath = dataPath("schedules.json");
+  private schedules: Schedule[] = [];
+  private loadedMtimeMs = -1;
+  private timer?: NodeJS.Timeout;
+
+  // Next.js loads instrumentation.ts (which starts the ticking) in its own
+  // module graph, so the API routes talk to a different instance - pick up
+  // the changes they made before reading or writing
+  private refresh() {
+    const mtimeMs =
+      fs.statSync(this.filePath, { throwIfNoEntry: false })?.mtimeMs ?? 0;
+    if (mtimeMs !== this.loadedMtimeMs) {
+      this.schedules = readJSONFile(this.filePath, []);
+      this.loadedMtimeMs = mtimeMs;
+    }
+  }
+
+  private save() {
+    try {
+      writeJSONFile(this.filePath, this.schedules);
+    } catch (error) {
+      console.error("❌ Failed to save schedules:", error);
+    }
+  }
+
+  // Check the schedules once a minute, on the minute
+  start() {
+    if (this.timer || process.env.NEXT_PHASE === "phase-production-build") {
+      return;
+    }
+
+    const delay = TICK_INTERVAL_MS - (Date.now() % TICK_INTERVAL_MS);
+    this.timer = setTimeout(() => {
+      this.tick();
+      this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+      this.timer.unref();
+    }, delay);
+    this.timer.unref();
+
+    this.refresh();
+    console.log(`⏰ Scheduler started with ${this.schedules.length} schedules`);
+  }
+
+  private tick() {
+    const now = new Date();
+    now.setSeconds(0, 0);
+    this.refresh();
+
+    for (const schedule of this.schedules) {
+      if (!schedule.enabled) continue;
+
+      try {
+        if (cronMatches(parseCron(schedule.cron), now)) {
+          this.run(schedule.id, "cron");
+        }
+      } catch (error) {
+        console.error(`❌ Schedule ${schedule.id} failed:`, error);
+      }
+    }
+  }
+
+  listSchedules(): Schedule[] {
+    this.refresh();
+    return this.schedules;
+  }
+
+  getSchedule(id: string): Schedule | undefined {
+    this.refresh();
+    return this.schedules.find((schedule) => schedule.id === id);
+  }
+
+  addSchedule(input: {
+    name?: string;
+    cron: string;
+    target: unknown;
+    updateSheet?: boolean;
+    enabled?: boolean;
+  }): Schedule {
+    parseCron(input.cron);
+    this.refresh();
+
+    const schedule: Schedule = {
+      id: `sched_${crypto.randomUUID()}`,
+      name: input.name?.trim() || `Re-QA ${input.cron}`,
+      cron: input.cron.trim(),
+      target: validateTarget(input.target),
+      updateSheet: input.updateSheet === true,
+      enabled: input.enabled !== false,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.schedules.push(schedule);
+    this.save();
+    console.log(`⏰ Schedule added: ${schedule.name} (${schedule.cron})`);
+    return schedule;
+  }
+
+  updateSchedule(
+    id: string,
+    changes: {
+      name?: string;
+      cron?: string;
+      target?: unknown;
+      updateSheet?: boolean;
+      enabled?: boolean;
+    }
+  ): Schedule | undefined {
+    const schedule = this.getSchedule(id);
+    if (!schedule) return undefined;
+
+    if (changes.cron !== undefined) {
+      parseCron(changes.cron);
+      schedule.cron = changes.cron.trim();
+    }
+    if (changes.target !== undefined) {
+      schedule.target = validateTarget(changes.target);
+    }
+    if (changes.name !== undefined) schedule.name = changes.name;
+    if (changes.updateSheet !== undefined) {
+      schedule.updateSheet = changes.updateSheet;
+    }
+    if (changes.enabled !== undefined) schedule.enabled = changes.enabled;
+
+    this.save();
+    return schedule;
+  }
+
+  removeSchedule(id: string): boolean {
+    this.refresh();
+    const before = this.schedules.length;
+    this.schedules = this.schedules.filter((schedule) => schedule.id !== id);
+    if (this.schedules.length === before) return false;
+
+    this.save();
+    return true;
+  }
+
+  // Latest run of every article the schedule covers
+  private resolveTarget(target: ScheduleTarget): QAJob[] {
+    let articleIds: string[];
+
+    if (target.type === "articles") {
+      articleIds = target.articleIds;
+    } else if (target.type === "batch") {
+      const batch = batchManager.getBatch(target.batchId);
+      if (!batch) {
+        throw new ScheduleValidationError(`Batch not found: ${target.batchId}`);
+      }
+      articleIds = batch.rows
+        .filter((row) => row.accepted && row.articleId)
+        .map((row) => row.articleId as string);
+    } else {
+      const before = new Date(target.before).getTime();
+      const latest = new Map<string, QAJob>();
+      for (const job of globalQueue.getAllJobs()) {
+        const current = latest.get(job.articleId);
+        if (!current || (job.revision ?? 0) > (current.revision ?? 0)) {
+          latest.set(job.articleId, job);
+        }
+      }
+      return Array.from(latest.values()).filter(
+        (job) =>
+          job.status === "completed" &&
+          job.aiAnalysis?.status === "Approved" &&
+          job.completedAt !== undefined &&
+          new Date(job.completedAt).getTime() < before
+      );
+    }
+
+    return articleIds
+      .map((articleId) => globalQueue.findJobByArticleId(articleId))
+      .filter((job): job is QAJob => job !== undefined);
+  }
+
+  // Enqueue a forced, background-priority re-QA of every article in the target
+  run(id: string, trigger: ScheduleRun["trigger"] = "manual"): ScheduleRun {
+    const schedule = this.getSchedule(id);
+    if (!schedule) {
+      throw new ScheduleValidationError(`Schedule not found: ${id}`);
+    }
+
+    const jobs = this.resolveTarget(schedule.target);
+    const run: ScheduleRun = {
+      startedAt: new Date().toISOString(),
+      trigger,
+      enqueued: 0,
+      skipped: 0,
+      rejected: 0,
+      jobIds: [],
+    };
+
+    for (const previous of jobs) {
+      if (previous.status === "pending" || previous.status === "processing") {
+        run.skipped++;
+        continue;
+      }
+
+      try {
+        const job = globalQueue.addJob({
+          articleId: previous.articleId,
+          productName: previous.productName,
+          references: previous.references,
+          ...(schedule.updateSheet
+            ? { sheetId: previous.sheetId, rowIndex: previous.rowIndex }
+            : {}),
+          // The point is to re-check with the current spec and prompt, so
+          // never reuse cached results
+          force: true,
+          priority: "background",
+          scheduleId: schedule.id,
+          options: previous.options,
+        });
+        run.enqueued++;
+        run.jobIds.push(job.id);
+      } catch (error) {
+        if (error instanceof QueueFullError) {
+          run.rejected++;
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    schedule.lastRun = run;
+    this.save();
+    console.log(
+      `⏰ Schedule "${schedule.name}" (${trigger}): ${run.enqueued} re-QA jobs enqueued, ${run.skipped} skipped, ${run.rejected} rejected (queue full)`
+    );
+
+    return run;
+  }
+}
+
+export const scheduler = new Scheduler();
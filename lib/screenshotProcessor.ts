@@ -1,8 +1,18 @@
 // lib/screenshotProcessor.ts
 
-import puppeteer from "puppeteer";
-import { put } from "@vercel/blob";
+import puppeteer, { Browser } from "puppeteer";
 import { QAJob } from "./queue";
+import { saveArtifact } from "./artifacts";
+import { LogEntry, LogSink, StageLogger } from "./logger";
+import { CAMERA_ORBITS, CameraAngle, resolveJobOptions } from "./jobOptions";
+import {
+  InternalError,
+  InvalidGLBError,
+  NotFoundError,
+  PipelineError,
+  RateLimitError,
+  parseRetryAfter,
+} from "./errors";
 
 const generateId = () =>
   `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
@@ -18,12 +28,17 @@ export interface ScreenshotResult {
     doubleSidedMaterials: string[];
     fileSize: number;
   };
-  processingLogs: string[];
+  processingLogs: LogEntry[];
 }
 
 export class ScreenshotProcessor {
   // Download GLB file from your existing API
-  private async downloadGLB(articleId: string): Promise<Buffer> {
+  // (from the project's Drive folder, or GOOGLE_DRIVE_FOLDER_ID)
+  async downloadGLB(
+    articleId: string,
+    signal?: AbortSignal,
+    projectId?: string
+  ): Promise<Buffer> {
     // Use full URL for server-side requests
     const baseUrl = process.env.VERCEL_URL
       ? `https://${process.env.VERCEL_URL}`
@@ -49,14 +64,24 @@ export class ScreenshotProcessor {
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ articleId }),
+          body: JSON.stringify({ articleId, projectId }),
+          signal,
         });
 
         if (!response.ok) {
           const errorText = await response.text();
-          throw new Error(
-            `Failed to download GLB for article ${articleId}: ${response.status} ${response.statusText} - ${errorText}`
-          );
+          const errorMsg = `Failed to download GLB for article ${articleId}: ${response.status} ${response.statusText} - ${errorText}`;
+
+          if (response.status === 404) {
+            throw new NotFoundError(errorMsg);
+          }
+          if (response.status === 429) {
+            throw new RateLimitError(
+              errorMsg,
+              parseRetryAfter(response.headers.get("retry-after"))
+            );
+          }
+          throw new InternalError(errorMsg);
         }
 
         const arrayBuffer = await response.arrayBuffer();
@@ -64,12 +89,12 @@ export class ScreenshotProcessor {
 
         // Verify the buffer is valid and not empty
         if (buffer.length === 0) {
-          throw new Error("Downloaded GLB file is empty");
+          throw new InvalidGLBError("Downloaded GLB file is empty");
         }
 
         // Basic GLB header validation (glTF Binary starts with "glTF")
         if (buffer.length < 4 || buffer.toString("ascii", 0, 4) !== "glTF") {
-          throw new Error(
+          throw new InvalidGLBError(
             "Downloaded file is not a valid GLB (missing glTF header)"
           );
         }
@@ -79,6 +104,12 @@ export class ScreenshotProcessor {
       } catch (error) {
         lastError = error as Error;
         console.error(`❌ GLB download attempt ${attempt} failed:`, error);
+        signal?.throwIfAborted();
+
+        // A missing or corrupt file won't fix itself between attempts
+        if (error instanceof PipelineError && !error.retryable) {
+          throw error;
+        }
 
         if (attempt < maxRetries) {
           console.log(`⏳ Waiting ${retryDelay}ms before retry...`);
@@ -87,25 +118,28 @@ export class ScreenshotProcessor {
       }
     }
 
-    throw new Error(
+    if (lastError instanceof PipelineError) {
+      throw lastError;
+    }
+
+    throw new InternalError(
       `GLB download failed after ${maxRetries} attempts: ${
         lastError?.message || "Unknown error"
       }`
     );
   }
 
-  // Upload GLB to blob storage and get public URL
-  private async uploadGLBToBlob(
-    glbBuffer: Buffer,
-    articleId: string
-  ): Promise<string> {
+  // Upload GLB to blob storage (or the local dry-run area) and get its URL
+  async uploadGLBToBlob(glbBuffer: Buffer, job: QAJob): Promise<string> {
     try {
       console.log(`☁️ Uploading GLB to blob storage...`);
-      const filename = `qa-glb-${articleId}-${Date.now()}.glb`;
-      const { url } = await put(filename, glbBuffer, {
-        access: "public",
-        contentType: "model/gltf-binary",
-      });
+      const filename = `qa-glb-${job.articleId}-${Date.now()}.glb`;
+      const url = await saveArtifact(
+        job,
+        filename,
+        glbBuffer,
+        "model/gltf-binary"
+      );
       console.log(`✅ GLB uploaded to blob: ${url}`);
       return url;
     } catch (error) {
@@ -121,19 +155,10 @@ export class ScreenshotProcessor {
   // Generate HTML for model-viewer with script as data URL
   private async generateModelViewerHTML(
     glbUrl: string,
-    cameraAngle: string,
+    cameraAngle: CameraAngle,
     width: number = 1600,
     height: number = 1200
   ): Promise<string> {
-    const cameraSettings = {
-      front: 'camera-orbit="0deg 75deg 4m"',
-      back: 'camera-orbit="180deg 75deg 4m"',
-      left: 'camera-orbit="-90deg 75deg 4m"',
-      right: 'camera-orbit="90deg 75deg 4m"',
-      top: 'camera-orbit="0deg 0deg 4m"',
-      isometric: 'camera-orbit="45deg 55deg 4m"',
-    };
-
     // Read the model-viewer script content
     const fs = await import("fs");
     const path = await import("path");
@@ -177,10 +202,7 @@ export class ScreenshotProcessor {
           <body>
             <model-viewer
               src="${glbUrl}"
-              ${
-                cameraSettings[cameraAngle as keyof typeof cameraSettings] ||
-                cameraSettings.front
-              }
+              ${`camera-orbit="${CAMERA_ORBITS[cameraAngle]}"`}
               auto-rotate="false"
               camera-controls="false"
               disable-zoom="true"
@@ -203,7 +225,7 @@ export class ScreenshotProcessor {
   }
 
   // Extract model statistics from the loaded model
-  private async extractModelStats(page: any, glbBuffer: Buffer): Promise<any> {
+  private async extractModelStats(page: any, fileSize: number): Promise<any> {
     try {
       console.log("📊 Starting model stats extraction...");
 
@@ -271,7 +293,7 @@ export class ScreenshotProcessor {
         // Add file size to stats
         const finalStats = {
           ...stats,
-          fileSize: glbBuffer.length,
+          fileSize,
         };
         console.log("✅ Model stats extracted successfully:", finalStats);
         return finalStats;
@@ -284,7 +306,7 @@ export class ScreenshotProcessor {
           triangles: 0,
           doubleSidedCount: 0,
           doubleSidedMaterials: [],
-          fileSize: glbBuffer.length,
+          fileSize,
         };
       }
     } catch (error) {
@@ -296,41 +318,49 @@ export class ScreenshotProcessor {
         triangles: 0,
         doubleSidedCount: 0,
         doubleSidedMaterials: [],
-        fileSize: glbBuffer.length,
+        fileSize,
       };
     }
   }
 
-  // Main processing function - ONE MODEL-VIEWER INSTANCE ONLY
-  async processScreenshots(job: QAJob): Promise<ScreenshotResult> {
-    const logs: string[] = [];
+  // Close the browser, killing the Chromium process if it doesn't exit
+  // cleanly (e.g. stuck on a WebGL call)
+  private forceCloseBrowser(browser: Browser) {
+    const kill = setTimeout(() => {
+      console.log("🔪 Browser did not close in time, killing process...");
+      browser.process()?.kill("SIGKILL");
+    }, 5000);
+
+    browser
+      .close()
+      .catch(() => browser.process()?.kill("SIGKILL"))
+      .finally(() => clearTimeout(kill));
+  }
+
+  // Render the already-uploaded GLB - ONE MODEL-VIEWER INSTANCE ONLY
+  async captureScreenshots(
+    job: QAJob,
+    glbUrl: string,
+    fileSize: number,
+    signal?: AbortSignal,
+    sink?: LogSink
+  ): Promise<ScreenshotResult> {
+    const log = new StageLogger("screenshots", sink);
     const screenshots: string[] = [];
     let modelStats: any = null;
+    const { angles, resolution, imageFormat } = resolveJobOptions(job.options);
 
     try {
       console.log(
         `🚀 Starting screenshot processing for Article ID: ${job.articleId}`
       );
-      logs.push(
+      log.info(
         `Starting screenshot processing for Article ID: ${job.articleId}`
       );
 
-      // Step 1: Download GLB file
-      console.log("📥 Downloading GLB file...");
-      logs.push("Downloading GLB file from Google Drive...");
-      const glbBuffer = await this.downloadGLB(job.articleId);
-      console.log(`✅ GLB downloaded: ${glbBuffer.length} bytes`);
-      logs.push(`GLB file downloaded successfully: ${glbBuffer.length} bytes`);
-
-      // Step 2: Upload GLB to blob storage
-      console.log("☁️ Uploading GLB to blob storage...");
-      const glbUrl = await this.uploadGLBToBlob(glbBuffer, job.articleId);
-      console.log("✅ GLB uploaded to blob storage");
-      logs.push("GLB uploaded to blob storage for model-viewer");
-
-      // Step 3: Launch browser
+      // Step 1: Launch browser
       console.log("🚀 Launching browser...");
-      logs.push("Launching headless browser...");
+      log.info("Launching headless browser...");
       const browser = await puppeteer.launch({
         executablePath: "/usr/bin/chromium-browser",
         args: [
@@ -346,8 +376,21 @@ export class ScreenshotProcessor {
       });
       console.log("✅ Browser launched successfully");
 
+      // Aborted while Chromium was starting: nothing else would close it
+      if (signal?.aborted) {
+        this.forceCloseBrowser(browser);
+        signal.throwIfAborted();
+      }
+
+      // Closing the browser makes any pending Puppeteer call reject
+      const closeOnAbort = () => {
+        console.log("🛑 Job aborted, closing browser...");
+        this.forceCloseBrowser(browser);
+      };
+      signal?.addEventListener("abort", closeOnAbort, { once: true });
+
       try {
-        // Step 4: Create ONE page for both stats and screenshots
+        // Step 2: Create ONE page for both stats and screenshots
         console.log("📄 Creating browser page...");
         const page = await browser.newPage();
         try {
@@ -362,9 +405,9 @@ export class ScreenshotProcessor {
             console.error("❌ PAGE ERROR:", error.message);
           });
 
-          // Set higher resolution viewport for better quality screenshots
-          const screenshotWidth = 1600; // Configurable width
-          const screenshotHeight = 1200; // Configurable height
+          // Viewport size is the screenshot size (options.resolution)
+          const screenshotWidth = resolution.width;
+          const screenshotHeight = resolution.height;
 
           console.log(
             `🖼️ Setting viewport to ${screenshotWidth}x${screenshotHeight}...`
@@ -378,7 +421,7 @@ export class ScreenshotProcessor {
           console.log("📝 Generating HTML content...");
           const htmlContent = await this.generateModelViewerHTML(
             glbUrl,
-            "front",
+            angles[0],
             screenshotWidth,
             screenshotHeight
           );
@@ -440,16 +483,18 @@ export class ScreenshotProcessor {
           });
           console.log("✅ Model is loaded and ready");
 
-          // Step 5: Extract model stats from the loaded model
+          // Step 3: Extract model stats from the loaded model
           console.log("📊 Extracting model statistics...");
-          logs.push("Extracting model statistics...");
+          log.info("Extracting model statistics...");
           try {
-            modelStats = await this.extractModelStats(page, glbBuffer);
+            modelStats = await this.extractModelStats(page, fileSize);
             console.log("✅ Model stats extracted:", modelStats);
-            logs.push("✅ Model statistics extracted successfully");
+            log.info("Model statistics extracted successfully", {
+              ...modelStats,
+            });
           } catch (statsError) {
             console.error("❌ Stats extraction failed:", statsError);
-            logs.push(`⚠️ Failed to extract model stats: ${statsError}`);
+            log.warn(`Failed to extract model stats: ${statsError}`);
             modelStats = {
               meshCount: 0,
               materialCount: 0,
@@ -457,24 +502,21 @@ export class ScreenshotProcessor {
               triangles: 0,
               doubleSidedCount: 0,
               doubleSidedMaterials: [],
-              fileSize: glbBuffer.length,
+              fileSize,
             };
           }
 
-          // Step 6: Take screenshots using the same model-viewer
+          // Step 4: Take screenshots using the same model-viewer
           console.log("📸 Starting screenshot capture...");
-          const angles = ["front", "back", "left", "right", "isometric"];
-          const cameraSettings: Record<string, string> = {
-            front: "0deg 75deg 4m",
-            back: "180deg 75deg 4m",
-            left: "-90deg 75deg 4m",
-            right: "90deg 75deg 4m",
-            isometric: "45deg 55deg 4m",
-          };
+          log.debug(
+            `Capturing ${angles.length} ${imageFormat} screenshots at ${screenshotWidth}x${screenshotHeight}`,
+            { angles, imageFormat, ...resolution }
+          );
 
           for (const angle of angles) {
+            signal?.throwIfAborted();
             console.log(`📷 Taking ${angle} screenshot...`);
-            logs.push(`Taking screenshot from ${angle} angle...`);
+            log.debug(`Taking screenshot from ${angle} angle...`);
             try {
               // Change camera angle on existing model-viewer
               await page.evaluate((orbitVal) => {
@@ -485,7 +527,7 @@ export class ScreenshotProcessor {
                 } else {
                   console.error("Model-viewer not found!");
                 }
-              }, cameraSettings[angle]);
+              }, CAMERA_ORBITS[angle]);
 
               // Wait for camera to move
               console.log(`⏳ Waiting for camera transition (${angle})...`);
@@ -513,33 +555,34 @@ export class ScreenshotProcessor {
               // Take screenshot
               console.log(`📸 Capturing screenshot (${angle})...`);
               const screenshotBuffer = await page.screenshot({
-                type: "jpeg", // Use JPEG for better compression
-                quality: 90, // Set quality (0-100, only works with JPEG)
+                type: imageFormat,
+                // Quality (0-100) only applies to JPEG
+                ...(imageFormat === "jpeg" ? { quality: 90 } : {}),
                 fullPage: false,
               });
 
               console.log(`☁️ Uploading screenshot (${angle})...`);
               const filename = `qa-screenshot-${
                 job.articleId
-              }-${angle}-${generateId()}.jpg`;
-              const { url } = await put(
+              }-${angle}-${generateId()}.${
+                imageFormat === "png" ? "png" : "jpg"
+              }`;
+              const url = await saveArtifact(
+                job,
                 filename,
                 Buffer.from(screenshotBuffer),
-                {
-                  access: "public",
-                  contentType: "image/jpeg",
-                }
+                `image/${imageFormat}`
               );
 
               screenshots.push(url);
               console.log(`✅ ${angle} screenshot completed: ${url}`);
-              logs.push(`✅ ${angle} screenshot completed: ${url}`);
+              log.info(`${angle} screenshot completed: ${url}`, { angle, url });
             } catch (error) {
               const errorMsg = `Failed to capture ${angle} screenshot: ${
                 error instanceof Error ? error.message : "Unknown error"
               }`;
               console.error(`❌ ${errorMsg}`);
-              logs.push(`❌ ${errorMsg}`);
+              log.error(errorMsg, { angle });
               // Continue with other angles even if one fails
             }
           }
@@ -548,19 +591,22 @@ export class ScreenshotProcessor {
           throw pageError;
         } finally {
           console.log("🔒 Closing browser page...");
-          await page.close();
+          await page.close().catch(() => undefined);
         }
       } catch (browserError) {
         console.error("❌ Browser error:", browserError);
         throw browserError;
       } finally {
+        signal?.removeEventListener("abort", closeOnAbort);
         console.log("🔒 Closing browser...");
-        await browser.close();
-        logs.push("Browser closed");
+        await browser.close().catch(() => undefined);
+        log.debug("Browser closed");
       }
 
       if (screenshots.length === 0) {
-        const error = new Error("No screenshots were successfully captured");
+        const error = new InternalError(
+          "No screenshots were successfully captured"
+        );
         console.error("❌ Fatal error:", error.message);
         throw error;
       }
@@ -568,14 +614,15 @@ export class ScreenshotProcessor {
       console.log(
         `🎉 Screenshot processing completed: ${screenshots.length} images generated`
       );
-      logs.push(
-        `Screenshot processing completed: ${screenshots.length} images generated`
+      log.info(
+        `Screenshot processing completed: ${screenshots.length} images generated`,
+        { count: screenshots.length }
       );
 
       return {
         screenshots,
         modelStats,
-        processingLogs: logs,
+        processingLogs: log.entries,
       };
     } catch (error) {
       const errorMsg = `Screenshot processing failed: ${
@@ -586,7 +633,13 @@ export class ScreenshotProcessor {
         "❌ Error stack:",
         error instanceof Error ? error.stack : "No stack trace"
       );
-      logs.push(`❌ ${errorMsg}`);
+      log.error(errorMsg);
+      signal?.throwIfAborted();
+
+      // Keep the original error class so the queue can decide on retries
+      if (error instanceof PipelineError) {
+        throw error;
+      }
       throw new Error(errorMsg);
     }
   }
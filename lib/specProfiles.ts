@@ -0,0 +1,49 @@
+// lib/specProfiles.ts
+
+// Technical limits a model is checked against, by the AI analysis and in the
+// PDF report. "standard" is what every job used before profiles existed.
+export interface SpecProfile {
+  name: string;
+  description: string;
+  maxTriangles: number;
+  maxMeshes: number;
+  maxMaterials: number;
+  maxDoubleSidedMaterials: number;
+  maxFileSizeMB: number;
+}
+
+export const SPEC_PROFILES: Record<string, SpecProfile> = {
+  standard: {
+    name: "standard",
+    description: "Web product viewer",
+    maxTriangles: 150000,
+    maxMeshes: 5,
+    maxMaterials: 5,
+    maxDoubleSidedMaterials: 0,
+    maxFileSizeMB: 15,
+  },
+  mobile: {
+    name: "mobile",
+    description: "AR and low-end mobile devices",
+    maxTriangles: 50000,
+    maxMeshes: 3,
+    maxMaterials: 3,
+    maxDoubleSidedMaterials: 0,
+    maxFileSizeMB: 5,
+  },
+  hero: {
+    name: "hero",
+    description: "Featured products with close-up detail",
+    maxTriangles: 500000,
+    maxMeshes: 10,
+    maxMaterials: 10,
+    maxDoubleSidedMaterials: 0,
+    maxFileSizeMB: 40,
+  },
+};
+
+export const DEFAULT_SPEC_PROFILE = "standard";
+
+export function getSpecProfile(name = DEFAULT_SPEC_PROFILE): SpecProfile {
+  return SPEC_PROFILES[name] ?? SPEC_PROFILES[DEFAULT_SPEC_PROFILE];
+}
@@ -0,0 +1,77 @@
+// lib/statusChangeDebouncer.ts
+
+import { StatusChangeRecord } from "./statusChangeLog";
+
+// Sheet edits often arrive twice (onEdit plus a manual trigger) or flap
+// between statuses within seconds. Changes to an article are held for the
+// debounce window and only the last one is acted on. 0 disables debouncing.
+const DEBOUNCE_MS =
+  process.env.QA_STATUS_DEBOUNCE_SECONDS !== undefined
+    ? Math.max(Number(process.env.QA_STATUS_DEBOUNCE_SECONDS) || 0, 0) * 1000
+    : 15 * 1000;
+
+export type PendingStatusChange = Omit<StatusChangeRecord, "outcome">;
+
+interface PendingEntry {
+  change: PendingStatusChange;
+  dueAt: string;
+  timer: NodeJS.Timeout;
+}
+
+class StatusChangeDebouncer {
+  readonly windowMs = DEBOUNCE_MS;
+  private pending: Map<string, PendingEntry> = new Map();
+
+  get enabled(): boolean {
+    return this.windowMs > 0;
+  }
+
+  // Hold a change until the article has been quiet for the window, then
+  // run it. A later change for the same article replaces this one and
+  // restarts the window; the replaced change is returned so the caller
+  // can record it as collapsed.
+  schedule(
+    change: PendingStatusChange,
+    run: () => Promise<unknown>
+  ): { dueAt: string; superseded?: PendingStatusChange } {
+    const previous = this.pending.get(change.articleId);
+    if (previous) clearTimeout(previous.timer);
+
+    const timer = setTimeout(() => {
+      this.pending.delete(change.articleId);
+      run().catch((error) => {
+        console.error(
+          `❌ Debounced status change ${change.id} failed:`,
+          error instanceof Error ? error.message : error
+        );
+      });
+    }, this.windowMs);
+
+    const dueAt = new Date(Date.now() + this.windowMs).toISOString();
+    this.pending.set(change.articleId, { change, dueAt, timer });
+
+    return { dueAt, superseded: previous?.change };
+  }
+
+  isPending(articleId: string): boolean {
+    return this.pending.has(articleId);
+  }
+
+  findByIdempotencyKey(key: string): PendingStatusChange | undefined {
+    for (const { change } of this.pending.values()) {
+      if (change.idempotencyKey === key) return change;
+    }
+    return undefined;
+  }
+
+  // Changes still waiting out their window
+  list(): Array<{ changeId: string; articleId: string; dueAt: string }> {
+    return Array.from(this.pending.values()).map(({ change, dueAt }) => ({
+      changeId: change.id,
+      articleId: change.articleId,
+      dueAt,
+    }));
+  }
+}
+
+export const statusChangeDebouncer = new StatusChangeDebouncer();
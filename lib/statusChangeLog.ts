@@ -0,0 +1,189 @@
+// lib/statusChangeLog.ts
+
+import {
+  appendJSONLine,
+  dataPath,
+  readJSONLines,
+  writeJSONLines,
+} from "./dataStore";
+import { TriggerAction, TriggerDecision } from "./triggerRules";
+
+// What came of a status change:
+// - ignored: no trigger rule asked for anything
+// - enqueued: a new QA job was created
+// - deduplicated: a pending/processing job for the article was reused
+// - cancelled: a cancel rule stopped the article's pending/processing job
+// - rejected: the queue refused the request (requests that fail the
+//   signature check are only kept by the verifier, see requestAuth.ts)
+// - collapsed: a repeat of an earlier request (same idempotency key), or
+//   superseded by a later change to the article within the debounce window
+export type StatusChangeOutcome =
+  | "ignored"
+  | "enqueued"
+  | "deduplicated"
+  | "cancelled"
+  | "rejected"
+  | "collapsed";
+
+export const STATUS_CHANGE_OUTCOMES: StatusChangeOutcome[] = [
+  "ignored",
+  "enqueued",
+  "deduplicated",
+  "cancelled",
+  "rejected",
+  "collapsed",
+];
+
+export interface StatusChangeRecord {
+  id: string;
+  receivedAt: string;
+  articleId: string;
+  productName: string;
+  status: string;
+  oldStatus: string;
+  references: string[];
+  sheetId: string;
+  sheetName: string;
+  rowIndex: number;
+  timestamp: string; // As sent by the sheet
+  triggerType: string;
+  projectId?: string;
+  shouldStartQA: boolean;
+  triggerAction?: TriggerAction;
+  matchedRule?: TriggerDecision["matchedRule"];
+  outcome: StatusChangeOutcome;
+  jobId?: string;
+  reason?: string; // Why it was rejected or collapsed
+  idempotencyKey?: string;
+  collapsedInto?: string; // Change that stands in for this one
+}
+
+export interface StatusChangeQuery {
+  articleId?: string; // Substring, case-insensitive
+  sheet?: string; // Sheet ID, or substring of the sheet name
+  status?: string; // New status, case-insensitive
+  oldStatus?: string;
+  outcome?: StatusChangeOutcome;
+  from?: string; // receivedAt range, ISO dates
+  to?: string;
+}
+
+export interface StatusChangePage {
+  items: StatusChangeRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+const MAX_HISTORY = Number(process.env.QA_STATUS_HISTORY_MAX) || 10000;
+const MAX_PAGE_SIZE = 200;
+
+function matchesQuery(record: StatusChangeRecord, query: StatusChangeQuery) {
+  const includes = (value: string, search: string) =>
+    value.toLowerCase().includes(search.toLowerCase());
+  const equals = (value: string, search: string) =>
+    value.trim().toLowerCase() === search.trim().toLowerCase();
+
+  if (query.articleId && !includes(record.articleId, query.articleId)) {
+    return false;
+  }
+  if (
+    query.sheet &&
+    record.sheetId !== query.sheet &&
+    !includes(record.sheetName, query.sheet)
+  ) {
+    return false;
+  }
+  if (query.status && !equals(record.status, query.status)) return false;
+  if (query.oldStatus && !equals(record.oldStatus, query.oldStatus)) {
+    return false;
+  }
+  if (query.outcome && record.outcome !== query.outcome) return false;
+
+  const receivedAt = new Date(record.receivedAt).getTime();
+  if (query.from && receivedAt < new Date(query.from).getTime()) return false;
+  if (query.to && receivedAt > new Date(query.to).getTime()) return false;
+
+  return true;
+}
+
+class StatusChangeLog {
+  private filePath = dataPath("status-changes.jsonl");
+  // Oldest first, same as the file
+  private records: StatusChangeRecord[];
+
+  constructor() {
+    this.records = readJSONLines(this.filePath);
+    if (this.records.length > MAX_HISTORY) this.compact();
+  }
+
+  // Drop the oldest entries beyond MAX_HISTORY
+  private compact() {
+    this.records = this.records.slice(-MAX_HISTORY);
+    try {
+      writeJSONLines(this.filePath, this.records);
+    } catch (error) {
+      console.error("❌ Failed to compact status change history:", error);
+    }
+  }
+
+  record(entry: StatusChangeRecord): StatusChangeRecord {
+    this.records.push(entry);
+
+    try {
+      appendJSONLine(this.filePath, entry);
+    } catch (error) {
+      console.error("❌ Failed to save status change:", error);
+    }
+
+    // 10% slack so the file isn't rewritten on every request
+    if (this.records.length > MAX_HISTORY * 1.1) this.compact();
+    return entry;
+  }
+
+  // Latest change sent with this idempotency key within maxAgeMs
+  findByIdempotencyKey(
+    key: string,
+    maxAgeMs: number
+  ): StatusChangeRecord | undefined {
+    const cutoff = Date.now() - maxAgeMs;
+
+    for (let i = this.records.length - 1; i >= 0; i--) {
+      const record = this.records[i];
+      if (new Date(record.receivedAt).getTime() < cutoff) return undefined;
+      if (record.idempotencyKey === key) return record;
+    }
+    return undefined;
+  }
+
+  get size(): number {
+    return this.records.length;
+  }
+
+  // Matching entries, newest first
+  search(query: StatusChangeQuery, page = 1, pageSize = 20): StatusChangePage {
+    const size = Math.min(
+      Math.max(Math.floor(pageSize) || 20, 1),
+      MAX_PAGE_SIZE
+    );
+    const matches: StatusChangeRecord[] = [];
+
+    for (let i = this.records.length - 1; i >= 0; i--) {
+      if (matchesQuery(this.records[i], query)) matches.push(this.records[i]);
+    }
+
+    const totalPages = Math.max(Math.ceil(matches.length / size), 1);
+    const current = Math.min(Math.max(Math.floor(page) || 1, 1), totalPages);
+
+    return {
+      items: matches.slice((current - 1) * size, current * size),
+      total: matches.length,
+      page: current,
+      pageSize: size,
+      totalPages,
+    };
+  }
+}
+
+export const statusChangeLog = new StatusChangeLog();
@@ -0,0 +1,344 @@
+// lib/triggerRules.ts
+
+import crypto from "crypto";
+import fs from "fs";
+import { JOB_PRIORITIES, JobPriority } from "./queue";
+import { dataPath, readJSONFile, writeJSONFile } from "./dataStore";
+import { QAJobOptions, validateJobOptions } from "./jobOptions";
+import { Project, isTriggerStatus } from "./projects";
+
+// How a rule compares a text field. Exact matches ignore case and
+// surrounding whitespace; regexes are case-insensitive.
+export interface TextMatcher {
+  equals?: string;
+  regex?: string;
+}
+
+export interface TriggerConditions {
+  status?: TextMatcher;
+  oldStatus?: TextMatcher;
+  sheetName?: TextMatcher;
+  minReferences?: number;
+}
+
+export type TriggerAction = "enqueue" | "cancel" | "ignore";
+export const TRIGGER_ACTIONS: TriggerAction[] = ["enqueue", "cancel", "ignore"];
+
+export interface TriggerRule {
+  id: string;
+  name: string;
+  sheetId?: string; // Applies to every sheet when unset
+  match: TriggerConditions;
+  action: TriggerAction;
+  // Used for enqueue; the request's own priority/options take precedence
+  priority?: JobPriority;
+  options?: QAJobOptions;
+  enabled: boolean;
+  createdAt: string;
+}
+
+export type TriggerRuleInput = Partial<Omit<TriggerRule, "id" | "createdAt">>;
+
+// The parts of a status-change payload the rules look at
+export interface TriggerPayload {
+  status?: string;
+  oldStatus?: string;
+  sheetId?: string;
+  sheetName?: string;
+  references?: unknown[];
+}
+
+export interface TriggerDecision {
+  action: TriggerAction;
+  // "project" / "default" when no configured rule matched
+  matchedRule: { id: string; name: string } | "project" | "default";
+  priority?: JobPriority;
+  options?: QAJobOptions;
+}
+
+export interface RuleTrace {
+  id: string;
+  name: string;
+  matched: boolean;
+  failed?: string; // First condition that did not match
+}
+
+export class TriggerRuleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TriggerRuleValidationError";
+  }
+}
+
+function validateMatcher(field: string, raw: unknown): TextMatcher | undefined {
+  if (raw === undefined || raw === null) return undefined;
+
+  const value = raw as Partial<Record<string, unknown>>;
+  if (typeof raw !== "object") {
+    throw new TriggerRuleValidationError(
+      `match.${field} must be { equals } or { regex }`
+    );
+  }
+
+  if (typeof value.equals === "string" && value.regex === undefined) {
+    return { equals: value.equals };
+  }
+
+  if (typeof value.regex === "string" && value.equals === undefined) {
+    try {
+      new RegExp(value.regex, "i");
+    } catch {
+      throw new TriggerRuleValidationError(
+        `match.${field}.regex is not a valid regular expression: ${value.regex}`
+      );
+    }
+    return { regex: value.regex };
+  }
+
+  throw new TriggerRuleValidationError(
+    `match.${field} must have exactly one of equals or regex`
+  );
+}
+
+function validateConditions(raw: unknown): TriggerConditions {
+  if (!raw || typeof raw !== "object") {
+    throw new TriggerRuleValidationError("match must be an object");
+  }
+
+  const value = raw as Partial<Record<string, unknown>>;
+  const conditions: TriggerConditions = {
+    status: validateMatcher("status", value.status),
+    oldStatus: validateMatcher("oldStatus", value.oldStatus),
+    sheetName: validateMatcher("sheetName", value.sheetName),
+  };
+
+  if (value.minReferences !== undefined) {
+    if (
+      typeof value.minReferences !== "number" ||
+      !Number.isInteger(value.minReferences) ||
+      value.minReferences < 0
+    ) {
+      throw new TriggerRuleValidationError(
+        "match.minReferences must be a non-negative integer"
+      );
+    }
+    conditions.minReferences = value.minReferences;
+  }
+
+  if (
+    !conditions.status &&
+    !conditions.oldStatus &&
+    !conditions.sheetName &&
+    conditions.minReferences === undefined
+  ) {
+    throw new TriggerRuleValidationError(
+      "match needs at least one of status, oldStatus, sheetName or minReferences"
+    );
+  }
+
+  return conditions;
+}
+
+function validateRule(
+  input: TriggerRuleInput
+): Omit<TriggerRule, "id" | "createdAt"> {
+  if (!input.action || !TRIGGER_ACTIONS.includes(input.action)) {
+    throw new TriggerRuleValidationError(
+      `action must be one of: ${TRIGGER_ACTIONS.join(", ")}`
+    );
+  }
+
+  if (input.sheetId !== undefined && typeof input.sheetId !== "string") {
+    throw new TriggerRuleValidationError("sheetId must be a string");
+  }
+
+  if (
+    input.priority !== undefined &&
+    !JOB_PRIORITIES.includes(input.priority)
+  ) {
+    throw new TriggerRuleValidationError(
+      `priority must be one of: ${JOB_PRIORITIES.join(", ")}`
+    );
+  }
+
+  let options: QAJobOptions | undefined;
+  try {
+    options = validateJobOptions(input.options);
+  } catch (error) {
+    throw new TriggerRuleValidationError(
+      error instanceof Error ? error.message : "Invalid options"
+    );
+  }
+
+  const match = validateConditions(input.match);
+
+  return {
+    name:
+      input.name?.trim() ||
+      `${input.action} on ${
+        match.status?.equals ?? match.status?.regex ?? "any status"
+      }`,
+    sheetId: input.sheetId || undefined,
+    match,
+    action: input.action,
+    priority: input.priority,
+    options,
+    enabled: input.enabled !== false,
+  };
+}
+
+function textMatches(matcher: TextMatcher, value: unknown) {
+  // Payloads are parsed JSON, so a field may hold a number or boolean
+  const text = typeof value === "string" ? value.trim() : "";
+  if (matcher.equals !== undefined) {
+    return matcher.equals.trim().toLowerCase() === text.toLowerCase();
+  }
+  return new RegExp(matcher.regex ?? "", "i").test(text);
+}
+
+// The first condition of the rule the payload fails, if any
+function failedCondition(
+  rule: TriggerRule,
+  payload: TriggerPayload
+): string | undefined {
+  const { status, oldStatus, sheetName, minReferences } = rule.match;
+
+  if (rule.sheetId && rule.sheetId !== payload.sheetId) return "sheetId";
+  if (status && !textMatches(status, payload.status)) return "status";
+  if (oldStatus && !textMatches(oldStatus, payload.oldStatus)) {
+    return "oldStatus";
+  }
+  if (sheetName && !textMatches(sheetName, payload.sheetName)) {
+    return "sheetName";
+  }
+  if (
+    minReferences !== undefined &&
+    (Array.isArray(payload.references) ? payload.references.length : 0) <
+      minReferences
+  ) {
+    return "minReferences";
+  }
+
+  return undefined;
+}
+
+class TriggerRuleEngine {
+  private filePath = dataPath("trigger-rules.json");
+  private rules: TriggerRule[] = [];
+  private loadedMtimeMs = -1;
+
+  // Other copies of this module (another Next.js module graph, another
+  // server on the same data dir) read the same file, so pick up rules
+  // changed through the API
+  private refresh() {
+    const mtimeMs =
+      fs.statSync(this.filePath, { throwIfNoEntry: false })?.mtimeMs ?? 0;
+    if (mtimeMs !== this.loadedMtimeMs) {
+      this.rules = readJSONFile(this.filePath, []);
+      this.loadedMtimeMs = mtimeMs;
+    }
+  }
+
+  private save() {
+    try {
+      writeJSONFile(this.filePath, this.rules);
+    } catch (error) {
+      console.error("❌ Failed to save trigger rules:", error);
+    }
+  }
+
+  listRules(): TriggerRule[] {
+    this.refresh();
+    return this.rules;
+  }
+
+  getRule(id: string): TriggerRule | undefined {
+    this.refresh();
+    return this.rules.find((rule) => rule.id === id);
+  }
+
+  addRule(input: TriggerRuleInput): TriggerRule {
+    const rule: TriggerRule = {
+      id: `rule_${crypto.randomUUID()}`,
+      ...validateRule(input),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.refresh();
+    this.rules.push(rule);
+    this.save();
+    console.log(`🎯 Trigger rule added: ${rule.name} (${rule.action})`);
+    return rule;
+  }
+
+  updateRule(id: string, changes: TriggerRuleInput): TriggerRule | undefined {
+    const rule = this.getRule(id);
+    if (!rule) return undefined;
+
+    Object.assign(rule, validateRule({ ...rule, ...changes }));
+    this.save();
+    return rule;
+  }
+
+  removeRule(id: string): boolean {
+    this.refresh();
+    const before = this.rules.length;
+    this.rules = this.rules.filter((rule) => rule.id !== id);
+    if (this.rules.length === before) return false;
+
+    this.save();
+    return true;
+  }
+
+  // Rules that apply to the payload's sheet, in evaluation order: the
+  // sheet's own rules first, then the ones for every sheet
+  private candidates(sheetId: string | undefined): TriggerRule[] {
+    this.refresh();
+    return [
+      ...this.rules.filter((rule) => rule.sheetId && rule.sheetId === sheetId),
+      ...this.rules.filter((rule) => !rule.sheetId),
+    ];
+  }
+
+  // Decide what a status change should do. The first enabled rule that
+  // matches wins; without one, the project's trigger statuses (or the
+  // built-in "Deliver" rule) decide whether to enqueue.
+  evaluate(
+    payload: TriggerPayload,
+    project: Project | undefined
+  ): { decision: TriggerDecision; trace: RuleTrace[] } {
+    const trace: RuleTrace[] = [];
+
+    for (const rule of this.candidates(payload.sheetId)) {
+      const failed = rule.enabled ? failedCondition(rule, payload) : "disabled";
+      trace.push({ id: rule.id, name: rule.name, matched: !failed, failed });
+
+      if (!failed) {
+        return {
+          decision: {
+            action: rule.action,
+            matchedRule: { id: rule.id, name: rule.name },
+            priority: rule.priority,
+            options: rule.options,
+          },
+          trace,
+        };
+      }
+    }
+
+    return {
+      decision: {
+        action: isTriggerStatus(
+          project,
+          typeof payload.status === "string" ? payload.status : ""
+        )
+          ? "enqueue"
+          : "ignore",
+        matchedRule: project?.triggerStatuses?.length ? "project" : "default",
+      },
+      trace,
+    };
+  }
+}
+
+export const triggerRuleEngine = new TriggerRuleEngine();
@@ -0,0 +1,468 @@
+// lib/webhooks.ts
+
+import crypto from "crypto";
+import fs from "fs";
+import type { QAJob } from "./queue";
+import { computeBackoff } from "./errors";
+import { dataPath, readJSONFile, writeJSONFile } from "./dataStore";
+
+export type WebhookEvent =
+  | "job.completed"
+  | "job.failed"
+  | "job.approved"
+  | "job.not_approved";
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  "job.completed",
+  "job.failed",
+  "job.approved",
+  "job.not_approved",
+];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  secret: string;
+  description?: string;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  event: WebhookEvent;
+  jobId: string;
+  articleId: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  maxAttempts: number;
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;
+  deliveredAt?: string;
+  // Signed body, kept only until the delivery succeeds or gives up
+  payload?: string;
+}
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  deliveryId: string;
+  timestamp: string;
+  job: QAJob;
+}
+
+export class WebhookValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookValidationError";
+  }
+}
+
+const MAX_ATTEMPTS = Number(process.env.QA_WEBHOOK_MAX_ATTEMPTS) || 5;
+const DELIVERY_TIMEOUT_MS = Number(process.env.QA_WEBHOOK_TIMEOUT_MS) || 10000;
+const MAX_STORED_DELIVERIES =
+  Number(process.env.QA_WEBHOOK_MAX_DELIVERIES) || 500;
+
+// Signature sent in X-QA-Signature: HMAC-SHA256 over "<timestamp>.<body>".
+// Receivers recompute it with their secret and compare.
+export function signPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+// Events a finished job fires: the outcome, plus the QA verdict if any
+function eventsForJob(job: QAJob): WebhookEvent[] {
+  if (job.status === "failed") {
+    return ["job.failed"];
+  }
+  if (job.status !== "completed") {
+    return [];
+  }
+
+  const events: WebhookEvent[] = ["job.completed"];
+  if (job.aiAnalysis?.status === "Approved") {
+    events.push("job.approved");
+  } else if (job.aiAnalysis?.status === "Not Approved") {
+    events.push("job.not_approved");
+  }
+  return events;
+}
+
+// Only the server sends webhooks: it owns the subscriptions and the delivery
+// log. A standalone worker leaves finished jobs to the server, which sees
+// them through the shared job store.
+const SENDS_WEBHOOKS = process.env.QA_WORKER_MODE !== "worker";
+
+function mtimeOf(filePath: string): number {
+  return fs.statSync(filePath, { throwIfNoEntry: false })?.mtimeMs ?? 0;
+}
+
+class WebhookManager {
+  private subscriptionsPath = dataPath("webhooks.json");
+  private deliveriesPath = dataPath("webhook-deliveries.json");
+  private subscriptions: WebhookSubscription[] = [];
+  private deliveries: WebhookDelivery[] = [];
+  private subscriptionsMtimeMs = -1;
+  private deliveriesMtimeMs = -1;
+
+  constructor() {
+    this.refresh();
+
+    // Pick up deliveries that were still retrying when the process stopped.
+    // Next.js can load this module twice (instrumentation.ts has its own
+    // module graph); only the first copy resumes them.
+    const resumed = globalThis as { __qaWebhooksResumed?: boolean };
+    if (
+      process.env.NEXT_PHASE !== "phase-production-build" &&
+      SENDS_WEBHOOKS &&
+      !resumed.__qaWebhooksResumed
+    ) {
+      resumed.__qaWebhooksResumed = true;
+      for (const delivery of this.deliveries) {
+        if (delivery.status === "pending") {
+          this.scheduleAttempt(delivery);
+        }
+      }
+    }
+  }
+
+  // Other copies of this module (the worker, or a second module graph in
+  // this process) may have saved changes since we last looked
+  private refresh() {
+    const subscriptionsMtimeMs = mtimeOf(this.subscriptionsPath);
+    if (subscriptionsMtimeMs !== this.subscriptionsMtimeMs) {
+      this.subscriptions = readJSONFile(this.subscriptionsPath, []);
+      this.subscriptionsMtimeMs = subscriptionsMtimeMs;
+    }
+
+    const deliveriesMtimeMs = mtimeOf(this.deliveriesPath);
+    if (deliveriesMtimeMs !== this.deliveriesMtimeMs) {
+      this.deliveries = readJSONFile(this.deliveriesPath, []);
+      this.deliveriesMtimeMs = deliveriesMtimeMs;
+    }
+  }
+
+  private saveSubscriptions() {
+    try {
+      writeJSONFile(this.subscriptionsPath, this.subscriptions);
+      this.subscriptionsMtimeMs = mtimeOf(this.subscriptionsPath);
+    } catch (error) {
+      console.error("❌ Failed to save webhook subscriptions:", error);
+    }
+  }
+
+  private saveDeliveries() {
+    try {
+      writeJSONFile(this.deliveriesPath, this.deliveries);
+      this.deliveriesMtimeMs = mtimeOf(this.deliveriesPath);
+    } catch (error) {
+      console.error("❌ Failed to save webhook deliveries:", error);
+    }
+  }
+
+  // Never hand the secret back out after creation
+  private mask(subscription: WebhookSubscription): WebhookSubscription {
+    return { ...subscription, secret: `${subscription.secret.slice(0, 4)}…` };
+  }
+
+  listSubscriptions(): WebhookSubscription[] {
+    this.refresh();
+    return this.subscriptions.map((subscription) => this.mask(subscription));
+  }
+
+  // Returns the full subscription, including the (possibly generated) secret
+  addSubscription(input: {
+    url: string;
+    events?: unknown;
+    secret?: unknown;
+    description?: string;
+  }): WebhookSubscription {
+    let url: URL;
+    try {
+      url = new URL(input.url);
+    } catch {
+      throw new WebhookValidationError(`Invalid webhook URL: ${input.url}`);
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      throw new WebhookValidationError("Webhook URL must use http or https");
+    }
+
+    if (
+      input.events !== undefined &&
+      (!Array.isArray(input.events) ||
+        input.events.some((event) => typeof event !== "string"))
+    ) {
+      throw new WebhookValidationError(
+        "events must be an array of event names"
+      );
+    }
+    if (input.secret !== undefined && typeof input.secret !== "string") {
+      throw new WebhookValidationError("secret must be a string");
+    }
+
+    const events: string[] = input.events?.length
+      ? input.events
+      : WEBHOOK_EVENTS;
+    const unknown = events.filter(
+      (event) => !WEBHOOK_EVENTS.includes(event as WebhookEvent)
+    );
+    if (unknown.length > 0) {
+      throw new WebhookValidationError(
+        `Unknown events: ${unknown.join(
+          ", "
+        )}. Valid events: ${WEBHOOK_EVENTS.join(", ")}`
+      );
+    }
+
+    const subscription: WebhookSubscription = {
+      id: `wh_${crypto.randomUUID()}`,
+      url: url.toString(),
+      events: events as WebhookEvent[],
+      secret: input.secret || crypto.randomBytes(32).toString("hex"),
+      description: input.description,
+      active: true,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.refresh();
+    this.subscriptions.push(subscription);
+    this.saveSubscriptions();
+    console.log(
+      `📡 Webhook subscription added: ${
+        subscription.url
+      } (${subscription.events.join(", ")})`
+    );
+
+    return subscription;
+  }
+
+  removeSubscription(id: string): boolean {
+    this.refresh();
+    const before = this.subscriptions.length;
+    this.subscriptions = this.subscriptions.filter((sub) => sub.id !== id);
+    if (this.subscriptions.length === before) return false;
+
+    // Stop retrying deliveries nobody is listening for any more
+    for (const delivery of this.deliveries) {
+      if (delivery.subscriptionId === id && delivery.status === "pending") {
+        this.finish(delivery, "failed", "Subscription removed");
+      }
+    }
+
+    this.saveSubscriptions();
+    this.saveDeliveries();
+    console.log(`🗑️ Webhook subscription removed: ${id}`);
+    return true;
+  }
+
+  getDeliveries(
+    filter: {
+      subscriptionId?: string;
+      jobId?: string;
+      status?: string;
+      limit?: number;
+    } = {}
+  ): WebhookDelivery[] {
+    this.refresh();
+    return this.deliveries
+      .filter(
+        (delivery) =>
+          (!filter.subscriptionId ||
+            delivery.subscriptionId === filter.subscriptionId) &&
+          (!filter.jobId || delivery.jobId === filter.jobId) &&
+          (!filter.status || delivery.status === filter.status)
+      )
+      .slice(
+        -Math.min(
+          Math.max(Math.floor(filter.limit ?? 50) || 50, 1),
+          MAX_STORED_DELIVERIES
+        )
+      )
+      .reverse()
+      .map((delivery) => ({ ...delivery, payload: undefined }));
+  }
+
+  // Queue a delivery to every subscription interested in this job's outcome
+  dispatch(job: QAJob) {
+    // Dry runs are for testing prompts and sheets, nobody should hear about them
+    if (job.dryRun || !SENDS_WEBHOOKS) return;
+
+    const events = eventsForJob(job);
+    this.refresh();
+
+    for (const subscription of this.subscriptions) {
+      if (!subscription.active) continue;
+
+      for (const event of events) {
+        if (!subscription.events.includes(event)) continue;
+
+        const deliveryId = `dlv_${crypto.randomUUID()}`;
+        const payload: WebhookPayload = {
+          event,
+          deliveryId,
+          timestamp: new Date().toISOString(),
+          job,
+        };
+
+        const delivery: WebhookDelivery = {
+          id: deliveryId,
+          subscriptionId: subscription.id,
+          url: subscription.url,
+          event,
+          jobId: job.id,
+          articleId: job.articleId,
+          status: "pending",
+          attempts: 0,
+          maxAttempts: MAX_ATTEMPTS,
+          createdAt: payload.timestamp,
+          payload: JSON.stringify(payload),
+        };
+
+        this.deliveries.push(delivery);
+        this.scheduleAttempt(delivery);
+      }
+    }
+
+    if (this.deliveries.length > MAX_STORED_DELIVERIES) {
+      this.deliveries = this.deliveries.slice(-MAX_STORED_DELIVERIES);
+    }
+    this.saveDeliveries();
+  }
+
+  private scheduleAttempt(delivery: WebhookDelivery) {
+    const delayMs = delivery.nextAttemptAt
+      ? Math.max(0, new Date(delivery.nextAttemptAt).getTime() - Date.now())
+      : 0;
+
+    setTimeout(() => {
+      this.attempt(delivery.id).catch((error) =>
+        console.error(`❌ Webhook delivery ${delivery.id} crashed:`, error)
+      );
+    }, delayMs).unref();
+  }
+
+  // The stored copy of a delivery, as of the latest save by any copy
+  private findDelivery(id: string): WebhookDelivery | undefined {
+    this.refresh();
+    return this.deliveries.find((delivery) => delivery.id === id);
+  }
+
+  private async attempt(deliveryId: string) {
+    const pending = this.findDelivery(deliveryId);
+    if (pending?.status !== "pending") return;
+
+    const subscription = this.subscriptions.find(
+      (sub) => sub.id === pending.subscriptionId
+    );
+    if (!subscription || !pending.payload) {
+      this.finish(pending, "failed", "Subscription no longer exists");
+      this.saveDeliveries();
+      return;
+    }
+
+    // Sign each attempt with a fresh timestamp so receivers can reject
+    // stale replays
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const attemptedAt = new Date().toISOString();
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    let retryable = true;
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "QA-Pipeline-Webhooks/1.0",
+          "X-QA-Event": pending.event,
+          "X-QA-Delivery": pending.id,
+          "X-QA-Timestamp": timestamp,
+          "X-QA-Signature": signPayload(
+            subscription.secret,
+            timestamp,
+            pending.payload
+          ),
+        },
+        body: pending.payload,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      if (!response.ok) {
+        // A 4xx means the receiver rejected the payload - resending the same
+        // body won't change its mind (except for timeouts and rate limits)
+        retryable =
+          response.status >= 500 ||
+          response.status === 408 ||
+          response.status === 429;
+        error = `HTTP ${response.status} ${response.statusText}`;
+      }
+    } catch (fetchError) {
+      error =
+        fetchError instanceof Error ? fetchError.message : "Unknown error";
+    }
+
+    // Record the outcome on the stored copy - it may have been replaced, or
+    // given up on because the subscription was removed, in the meantime
+    const delivery = this.findDelivery(deliveryId);
+    if (delivery?.status !== "pending") return;
+
+    delivery.attempts++;
+    delivery.lastAttemptAt = attemptedAt;
+    delivery.responseStatus = responseStatus;
+
+    if (!error) {
+      this.finish(delivery, "delivered");
+      console.log(
+        `📡 Webhook ${delivery.event} delivered to ${delivery.url} (job ${delivery.jobId})`
+      );
+    } else if (retryable && delivery.attempts < delivery.maxAttempts) {
+      const delayMs = computeBackoff(delivery.attempts);
+      delivery.error = error;
+      delivery.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      console.log(
+        `🔄 Webhook delivery to ${delivery.url} failed (${error}), retry ${
+          delivery.attempts
+        }/${delivery.maxAttempts} in ${Math.round(delayMs / 1000)}s`
+      );
+      this.scheduleAttempt(delivery);
+    } else {
+      this.finish(delivery, "failed", error);
+      console.error(
+        `❌ Webhook delivery to ${delivery.url} failed after ${delivery.attempts} attempts: ${error}`
+      );
+    }
+
+    this.saveDeliveries();
+  }
+
+  private finish(
+    delivery: WebhookDelivery,
+    status: "delivered" | "failed",
+    error?: string
+  ) {
+    delivery.status = status;
+    delivery.nextAttemptAt = undefined;
+    delivery.payload = undefined;
+    if (status === "delivered") {
+      delivery.deliveredAt = new Date().toISOString();
+      delivery.error = undefined;
+    } else {
+      delivery.error = error;
+    }
+  }
+}
+
+export const webhookManager = new WebhookManager();
@@ -0,0 +1,69 @@
+// scripts/worker.ts
+
+// Standalone job worker: runs queued QA jobs outside the Next.js server.
+// Start the server with QA_WORKER_MODE=external so it only enqueues, then
+// run one or more of these (`npm run worker`) against the same QA_DATA_DIR.
+//
+// Stage timings, retries and QA results are recorded where jobs run, so each
+// worker serves its own Prometheus endpoint at http://<host>:<port>/metrics
+// (QA_WORKER_METRICS_PORT, default 9464; 0 disables it). Scrape every worker
+// alongside the server's /api/metrics. Give workers on the same host
+// different ports.
+
+import http from "http";
+
+async function main() {
+  process.env.QA_WORKER_MODE = "worker";
+
+  // Imported after the mode is set - the queue reads it on load
+  const { default: globalQueue } = await import("../lib/queue");
+  const { busyWorkers, metrics } = await import("../lib/metrics");
+  const status = globalQueue.getQueueStatus();
+
+  console.log(
+    `👷 Worker ${status.workerId} started with ${status.maxConcurrentJobs} job slots (${status.pending} pending jobs)`
+  );
+
+  const metricsPort =
+    process.env.QA_WORKER_METRICS_PORT !== undefined
+      ? Number(process.env.QA_WORKER_METRICS_PORT)
+      : 9464;
+  if (!metricsPort) return;
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== "GET" || req.url !== "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+
+    busyWorkers.set(
+      {},
+      globalQueue.getQueueStatus().workers.filter((worker) => worker.busy)
+        .length
+    );
+    res
+      .writeHead(200, {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        "Cache-Control": "no-store",
+      })
+      .end(metrics.render());
+  });
+
+  // The worker keeps running jobs even if it can't serve metrics
+  server.on("error", (error) => {
+    console.error(
+      `❌ Worker metrics endpoint failed on port ${metricsPort}:`,
+      error.message
+    );
+  });
+  server.listen(metricsPort, () => {
+    console.log(`📈 Worker metrics at http://localhost:${metricsPort}/metrics`);
+  });
+  // Jobs, not the metrics endpoint, keep the worker alive
+  server.unref();
+}
+
+main().catch((error) => {
+  console.error("❌ Worker failed to start:", error);
+  process.exit(1);
+});